@@ -0,0 +1,69 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { Duke, type FetchResults } from "./duke.ts";
+import type { ErrorKind } from "./errors.ts";
+import { mqttOptionsFromEnv } from "./mqtt.ts";
+import { accountDataDir, loadAccounts, type Account } from "../../shared/accounts.ts";
+import type { Config } from "../../shared/config.ts";
+
+// One Duke client per configured account. They sign in with the same EMAIL/PASSWORD and share
+// the stored session, tariff and SQLite database in the root data directory; history and export
+// files go to each account's own directory.
+
+export type AccountResults = {
+	account: Account;
+	results: FetchResults;
+};
+
+// One client per account in the configured accounts file (or the single configured account)
+export function createAccountClients(config: Config, values: Partial<Duke> = {}, accounts: Account[] = loadAccounts(config)): Duke[] {
+	const data_dir = config.data_dir;
+	const mqtt_options = 'mqtt_options' in values ? values.mqtt_options : mqttOptionsFromEnv();
+
+	return accounts.map(account => {
+		if (account.default) {
+			return new Duke({ ...values, config, account });
+		}
+
+		// An account can price its usage with its own tariff.json; otherwise the shared one applies
+		const account_dir = accountDataDir(data_dir, account);
+		const account_tariff = path.join(account_dir, 'tariff.json');
+		return new Duke({
+			...values,
+			config,
+			data_dir: account_dir,
+			shared_dir: data_dir,
+			account,
+			...(!config.tariff_file && fs.existsSync(account_tariff) ? { tariff_file: account_tariff } : {}),
+			mqtt_options: mqtt_options && {
+				...mqtt_options,
+				client_id: mqtt_options.client_id && `${mqtt_options.client_id}-${account.label}`,
+				topic_prefix: `${mqtt_options.topic_prefix}/${account.label}`,
+				device_name: `Duke Energy (${account.label})`
+			}
+		});
+	});
+}
+
+// Collect every account in turn; one account failing doesn't stop the others
+export async function fetchAccounts(dukes: Duke[]): Promise<AccountResults[]> {
+	const runs: AccountResults[] = [];
+	for (const duke of dukes) {
+		runs.push({ account: duke.account, results: await duke.fetch_once() });
+	}
+
+	if (runs.length > 1) {
+		console.log(chalk.blue("=== Accounts Summary ==="));
+		for (const { account, results } of runs) {
+			const line = `${account.label} (${account.account_number}): ${results.success ? '✅' : '❌'}${results.error_kind ? ` ${results.error_kind}` : ''}`;
+			console.log(results.error_kind ? chalk.red(line) : chalk.green(line));
+		}
+	}
+	return runs;
+}
+
+// The first account's error decides the exit code and the scheduler's last_error_kind
+export function firstErrorKind(runs: AccountResults[]): ErrorKind | undefined {
+	return runs.find(run => run.results.error_kind)?.results.error_kind;
+}
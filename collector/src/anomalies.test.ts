@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { detectAnomalies, type AnomalyOptions } from "../../shared/anomalies.ts";
+import { addDays } from "../../shared/gaps.ts";
+
+// Five weeks from Sunday 2025-06-01 to Saturday 2025-07-05, so each day of the last week has
+// four earlier weeks for its weekday median
+const FIRST_DAY = '2025-06-01';
+const DAYS = 35;
+
+const ELECTRIC: AnomalyOptions = { threshold: 2, critical_threshold: 3, baseline_days: 14, min_increase: 10 };
+const GAS: AnomalyOptions = { ...ELECTRIC, min_increase: 1 };
+
+// Collector records (MM/DD/YYYY) for DAYS days; `usage` gets the YYYY-MM-DD date and its index
+function history(field: 'usage_kwh' | 'usage_ccf', usage: (date: string, index: number) => number, extra: (date: string) => object = () => ({})): any[] {
+	return Array.from({ length: DAYS }, (_, index) => {
+		const date = addDays(FIRST_DAY, index);
+		return { date: `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`, [field]: usage(date, index), ...extra(date) };
+	});
+}
+
+const LAST_DAY = addDays(FIRST_DAY, DAYS - 1);
+
+describe('detectAnomalies', () => {
+	test('leaves steady usage alone', () => {
+		expect(detectAnomalies(history('usage_kwh', () => 20), 'ELECTRIC', ELECTRIC)).toEqual([]);
+	});
+
+	test('flags a day over both the rolling and the weekday median as a warning', () => {
+		const alerts = detectAnomalies(history('usage_kwh', date => date === LAST_DAY ? 50 : 20), 'ELECTRIC', ELECTRIC);
+		expect(alerts).toHaveLength(1);
+		expect(alerts[0]).toMatchObject({ service: 'ELECTRIC', date: LAST_DAY, usage: 50, unit: 'kWh', severity: 'warning' });
+		expect(alerts[0].checks).toEqual([
+			{ rule: 'rolling_median', baseline: 20, ratio: 2.5 },
+			{ rule: 'weekday', baseline: 20, ratio: 2.5 }
+		]);
+		expect(alerts[0].reason).toBe('50 kWh is 2.5x the 14-day median (20 kWh); 2.5x the Saturday median (20 kWh)');
+	});
+
+	test('marks a day at the critical threshold over every baseline as critical', () => {
+		const alerts = detectAnomalies(history('usage_kwh', date => date === LAST_DAY ? 60 : 20), 'ELECTRIC', ELECTRIC);
+		expect(alerts.map(alert => alert.severity)).toEqual(['critical']);
+	});
+
+	test('lists alerts newest first', () => {
+		const spikes = [addDays(LAST_DAY, -7), LAST_DAY];
+		const alerts = detectAnomalies(history('usage_kwh', date => spikes.includes(date) ? 80 : 20), 'ELECTRIC', ELECTRIC);
+		expect(alerts.map(alert => alert.date)).toEqual([LAST_DAY, spikes[0]]);
+	});
+
+	test('ignores increases smaller than min_increase however large the ratio', () => {
+		const records = history('usage_kwh', date => date === LAST_DAY ? 8 : 2);
+		expect(detectAnomalies(records, 'ELECTRIC', ELECTRIC)).toEqual([]);
+		expect(detectAnomalies(records, 'ELECTRIC', { ...ELECTRIC, min_increase: 5 }).map(alert => alert.date)).toEqual([LAST_DAY]);
+	});
+
+	test('doesn\'t flag a weekday that is always busy', () => {
+		const saturday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay() === 6;
+		const records = history('usage_kwh', date => saturday(date) ? 50 : 20);
+		// Until three earlier Saturdays make a weekday baseline, the rolling median alone flags them
+		expect(detectAnomalies(records, 'ELECTRIC', ELECTRIC).map(alert => alert.date)).toEqual(['2025-06-21', '2025-06-14']);
+
+		// Well over the usual Saturday as well: flagged, and only a warning as it is 2.4x that median
+		const busier = history('usage_kwh', date => date === LAST_DAY ? 120 : saturday(date) ? 50 : 20);
+		const alerts = detectAnomalies(busier, 'ELECTRIC', { ...ELECTRIC, from: addDays(LAST_DAY, -6) });
+		expect(alerts).toHaveLength(1);
+		expect(alerts[0]).toMatchObject({ date: LAST_DAY, severity: 'warning' });
+		expect(alerts[0].checks).toEqual([
+			{ rule: 'rolling_median', baseline: 20, ratio: 6 },
+			{ rule: 'weekday', baseline: 50, ratio: 2.4 }
+		]);
+	});
+
+	test('checks gas against Duke\'s average when it sends one', () => {
+		const spike = (average_ccf: number) => history('usage_ccf', date => date === LAST_DAY ? 4 : 1, () => ({ average_ccf }));
+
+		// 4x the household's own medians, but not twice Duke's average
+		expect(detectAnomalies(spike(3), 'GAS', GAS)).toEqual([]);
+
+		const alerts = detectAnomalies(spike(1.6), 'GAS', GAS);
+		expect(alerts).toHaveLength(1);
+		expect(alerts[0].checks.map(check => check.rule)).toEqual(['rolling_median', 'weekday', 'duke_average']);
+		expect(alerts[0]).toMatchObject({ unit: 'CCF', severity: 'warning' });
+
+		// A zero average means Duke had none for the day
+		const without_average = detectAnomalies(spike(0), 'GAS', GAS);
+		expect(without_average[0].checks.map(check => check.rule)).toEqual(['rolling_median', 'weekday']);
+		expect(without_average[0].severity).toBe('critical');
+	});
+
+	test('only compares with baselines that have enough earlier days', () => {
+		// The sixth day has 5 earlier days, short of half the rolling window; the eighth has 7 but no earlier weeks
+		const records = history('usage_kwh', (_, index) => index === 5 || index === 7 ? 80 : 20).slice(0, 8);
+		const alerts = detectAnomalies(records, 'ELECTRIC', ELECTRIC);
+		expect(alerts.map(alert => alert.date)).toEqual([addDays(FIRST_DAY, 7)]);
+		expect(alerts[0].checks.map(check => check.rule)).toEqual(['rolling_median']);
+	});
+
+	test('only checks days between from and to but still uses earlier days as baselines', () => {
+		const spikes = [addDays(LAST_DAY, -7), LAST_DAY];
+		const records = history('usage_kwh', date => spikes.includes(date) ? 80 : 20);
+		expect(detectAnomalies(records, 'ELECTRIC', { ...ELECTRIC, from: LAST_DAY }).map(alert => alert.date)).toEqual([LAST_DAY]);
+		expect(detectAnomalies(records, 'ELECTRIC', { ...ELECTRIC, to: addDays(LAST_DAY, -1) }).map(alert => alert.date)).toEqual([spikes[0]]);
+	});
+});
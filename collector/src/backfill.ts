@@ -0,0 +1,164 @@
+import chalk from "chalk";
+import fs from "fs";
+import { sleep, type Duke } from "./duke.ts";
+import { formatRequestDate, parseIsoDate, toIsoDate, type DateRange } from "./dates.ts";
+
+// Largest window GetEnergyUsage returns per request (PeriodType "Month" for gas, "Week" for electric)
+export const CHUNK_DAYS = { GAS: 30, ELECTRIC: 7 } as const;
+
+// Stop a service after this many chunks fail in a row; the session has most likely expired
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export type BackfillOptions = {
+	from: Date;
+	// null backfills up to yesterday, or resumes up to the end a checkpoint with the same start was saved with
+	to: Date | null;
+	delay_ms: number;
+};
+
+export type BackfillResult = {
+	service: 'GAS' | 'ELECTRIC';
+	chunks: number;
+	completed: number;
+	skipped: number;
+	failed: number;
+	records: number;
+};
+
+// Completed chunks are checkpointed so a re-run with the same range only requests what is missing.
+// `to` is the resolved end, so a re-run without --to on a later day resumes the same range.
+type BackfillState = {
+	from: string;
+	to: string;
+	completed: { GAS: string[]; ELECTRIC: string[] };
+	updated_at: string;
+};
+
+// Split [from, to] (inclusive) into consecutive windows of at most chunk_days days
+export function splitDateRange(from: Date, to: Date, chunk_days: number): DateRange[] {
+	const chunks: DateRange[] = [];
+	const cursor = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+	while (cursor <= to) {
+		const start = new Date(cursor);
+		const end = new Date(cursor);
+		end.setDate(end.getDate() + chunk_days - 1);
+		chunks.push({ start, end: end > to ? new Date(to) : end });
+		cursor.setDate(cursor.getDate() + chunk_days);
+	}
+
+	return chunks;
+}
+
+// The checkpoint for `from` and `to` (any end when `to` is null), or a fresh one ending at `default_to`
+function loadState(state_file: string, from: string, to: string | null, default_to: string): BackfillState {
+	const fresh: BackfillState = { from, to: to ?? default_to, completed: { GAS: [], ELECTRIC: [] }, updated_at: new Date().toISOString() };
+
+	if (!fs.existsSync(state_file)) {
+		return fresh;
+	}
+
+	try {
+		const state: BackfillState = JSON.parse(fs.readFileSync(state_file, 'utf8'));
+		if (state.from === from && (to === null || state.to === to)) {
+			const done = state.completed.GAS.length + state.completed.ELECTRIC.length;
+			console.log(chalk.yellow(`Resuming backfill ${from} to ${state.to} (${done} chunks already completed)`));
+			return state;
+		}
+		console.log(chalk.yellow(`Ignoring checkpoint for a different range (${state.from} to ${state.to})`));
+	} catch (error) {
+		console.error(chalk.red("Error loading backfill checkpoint, starting over:"), error);
+	}
+
+	return fresh;
+}
+
+function saveState(state_file: string, state: BackfillState): void {
+	state.updated_at = new Date().toISOString();
+	fs.writeFileSync(state_file, JSON.stringify(state, null, 2));
+}
+
+export async function backfill(duke: Duke, options: BackfillOptions): Promise<BackfillResult[]> {
+	const yesterday = new Date();
+	yesterday.setDate(yesterday.getDate() - 1);
+
+	const from = toIsoDate(options.from);
+	const state_file = `${duke.data_dir}/backfill-state.json`;
+	const state = loadState(state_file, from, options.to ? toIsoDate(options.to) : null, toIsoDate(yesterday));
+	const to = state.to;
+	const end = parseIsoDate(to);
+
+	const services: ('GAS' | 'ELECTRIC')[] = [];
+	if (duke.account.gas_meter) services.push('GAS');
+	if (duke.account.electric_meter) services.push('ELECTRIC');
+
+	const results: BackfillResult[] = [];
+	let requested = false;
+
+	await duke.init();
+	try {
+		await duke.ensureSession();
+
+		for (const serviceType of services) {
+			const chunks = splitDateRange(options.from, end, CHUNK_DAYS[serviceType]);
+			const result: BackfillResult = { service: serviceType, chunks: chunks.length, completed: 0, skipped: 0, failed: 0, records: 0 };
+			let consecutive_failures = 0;
+
+			console.log(chalk.blue(`--- Backfilling ${serviceType.toLowerCase()} from ${from} to ${to} in ${chunks.length} chunks ---`));
+
+			for (const chunk of chunks) {
+				const chunk_key = toIsoDate(chunk.start);
+				if (state.completed[serviceType].includes(chunk_key)) {
+					result.skipped += 1;
+					continue;
+				}
+
+				// Pace requests so a long backfill doesn't look like a burst of scraping
+				if (requested) {
+					await sleep(options.delay_ms);
+				}
+				requested = true;
+
+				try {
+					const data = serviceType === 'GAS'
+						? await duke.read_gas_api(chunk, false)
+						: await duke.read_electric_api(chunk, false);
+
+					result.completed += 1;
+					result.records += data.length;
+					consecutive_failures = 0;
+					state.completed[serviceType].push(chunk_key);
+					saveState(state_file, state);
+				} catch (error) {
+					result.failed += 1;
+					consecutive_failures += 1;
+					console.error(chalk.red(`Failed to backfill ${serviceType.toLowerCase()} ${formatRequestDate(chunk.start)} - ${formatRequestDate(chunk.end)}:`), error);
+
+					if (consecutive_failures >= MAX_CONSECUTIVE_FAILURES) {
+						console.log(chalk.red(`Giving up on ${serviceType.toLowerCase()} after ${consecutive_failures} consecutive failures; re-run to resume`));
+						result.failed += chunks.length - result.completed - result.skipped - result.failed;
+						break;
+					}
+				}
+			}
+
+			// Rebuild latest/recent/monthly exports once from the merged history
+			if (result.records > 0) {
+				duke.exportForHomeAssistant(serviceType);
+			}
+			results.push(result);
+		}
+	} finally {
+		await duke.closeBrowser();
+	}
+
+	if (results.every(result => result.failed === 0)) {
+		if (fs.existsSync(state_file)) {
+			fs.unlinkSync(state_file);
+		}
+	} else {
+		saveState(state_file, state);
+	}
+
+	return results;
+}
@@ -0,0 +1,147 @@
+import fs from "fs";
+import { parseIsoDate, toIsoDate } from "./dates.ts";
+import { calendarMonth, type BillingPeriodOf } from "../../shared/tariff.ts";
+
+// Billing cycles run from one meter read to the day before the next. Known read dates come
+// from billing-cycles.json (entered by hand or discovered from ESPI UsageSummary entries);
+// outside them cycles are projected monthly on BILLING_CYCLE_DAY, or on the day of month of
+// the nearest known read.
+
+export type BillingCycle = {
+	start: string; // YYYY-MM-DD, inclusive
+	end: string; // YYYY-MM-DD, inclusive
+	days: number;
+	// meter_read when both boundaries are known read dates
+	source: 'meter_read' | 'estimated';
+};
+
+export type ReadDates = {
+	GAS?: string[];
+	ELECTRIC?: string[];
+};
+
+function addDays(iso_date: string, days: number): string {
+	const date = parseIsoDate(iso_date);
+	date.setDate(date.getDate() + days);
+	return toIsoDate(date);
+}
+
+// Rounded, so a DST change inside the range doesn't lose a day
+function daysBetween(start: string, end: string): number {
+	return Math.round((parseIsoDate(end).getTime() - parseIsoDate(start).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+// The cycle day in a given month, clamped to the month's length (a 31st cycle day reads on the 30th in April)
+function cycleDateInMonth(year: number, month: number, day: number): string {
+	const last_day = new Date(year, month + 1, 0).getDate();
+	return toIsoDate(new Date(year, month, Math.min(day, last_day)));
+}
+
+export function loadReadDates(filename: string): ReadDates {
+	if (!fs.existsSync(filename)) {
+		return {};
+	}
+	return JSON.parse(fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, ''));
+}
+
+// Merge newly discovered read dates into the file; returns how many were new
+export function saveReadDates(filename: string, serviceType: 'GAS' | 'ELECTRIC', dates: string[]): number {
+	const read_dates = loadReadDates(filename);
+	const known = new Set(read_dates[serviceType] ?? []);
+	const added = dates.filter(date => !known.has(date));
+
+	if (added.length > 0) {
+		read_dates[serviceType] = [...known, ...added].sort();
+		fs.writeFileSync(filename, JSON.stringify(read_dates, null, 2));
+	}
+	return new Set(added).size;
+}
+
+// Cycles covering [from, to] (YYYY-MM-DD). Returns [] when there are no read dates and no cycle day.
+export function buildBillingCycles(read_dates: string[], cycle_day: number, from: string, to: string): BillingCycle[] {
+	const reads = [...new Set(read_dates)].sort();
+	if (reads.length === 0 && !cycle_day) {
+		return [];
+	}
+
+	const first_read = reads[0];
+	const last_read = reads[reads.length - 1];
+	const boundaries = new Set(reads);
+
+	// Project monthly boundaries from a month before `from` to a month after `to`. Projections
+	// within 20 days of a known read would only create a stub cycle, so they are skipped.
+	const cursor = parseIsoDate(from);
+	cursor.setDate(1);
+	cursor.setMonth(cursor.getMonth() - 1);
+	const stop = parseIsoDate(to);
+	stop.setMonth(stop.getMonth() + 1);
+
+	while (cursor <= stop) {
+		if (reads.length === 0) {
+			boundaries.add(cycleDateInMonth(cursor.getFullYear(), cursor.getMonth(), cycle_day));
+		} else {
+			const before = cycleDateInMonth(cursor.getFullYear(), cursor.getMonth(), cycle_day || +first_read.slice(8, 10));
+			const after = cycleDateInMonth(cursor.getFullYear(), cursor.getMonth(), cycle_day || +last_read.slice(8, 10));
+			if (before < first_read && daysBetween(before, first_read) >= 20) {
+				boundaries.add(before);
+			}
+			if (after > last_read && daysBetween(last_read, after) >= 20) {
+				boundaries.add(after);
+			}
+		}
+		cursor.setMonth(cursor.getMonth() + 1);
+	}
+
+	const sorted = [...boundaries].sort();
+	const cycles: BillingCycle[] = [];
+	for (let i = 0; i < sorted.length - 1; i++) {
+		const start = sorted[i];
+		const end = addDays(sorted[i + 1], -1);
+		if (end < from || start > to) {
+			continue;
+		}
+		cycles.push({
+			start,
+			end,
+			days: daysBetween(start, end) + 1,
+			source: reads.includes(start) && reads.includes(sorted[i + 1]) ? 'meter_read' : 'estimated'
+		});
+	}
+	return cycles;
+}
+
+// Tariff period lookup for priceDays(); days outside every cycle fall back to calendar months
+export function billingPeriodOf(cycles: BillingCycle[]): BillingPeriodOf {
+	return iso_date => {
+		const cycle = cycles.find(candidate => candidate.start <= iso_date && iso_date <= candidate.end);
+		if (cycle) {
+			return { key: cycle.start, start: cycle.start, days: cycle.days };
+		}
+		return calendarMonth(iso_date);
+	};
+}
+
+// Read dates from any ESPI billingPeriod (start + duration, in epoch seconds) in a parsed response
+export function findBillingPeriods(parsed: any): string[] {
+	const dates = new Set<string>();
+
+	const visit = (node: any) => {
+		if (!node || typeof node !== 'object') {
+			return;
+		}
+		for (const [key, value] of Object.entries<any>(node)) {
+			if (/billingperiod$/i.test(key) && value && typeof value === 'object') {
+				const start = parseInt(value['espi:start'] ?? value.start);
+				const duration = parseInt(value['espi:duration'] ?? value.duration);
+				if (!isNaN(start) && !isNaN(duration)) {
+					dates.add(toIsoDate(new Date(start * 1000)));
+					dates.add(toIsoDate(new Date((start + duration) * 1000)));
+				}
+			}
+			visit(value);
+		}
+	};
+
+	visit(parsed);
+	return [...dates].sort();
+}
@@ -0,0 +1,28 @@
+import chalk from "chalk";
+import path from "path";
+import { ConfigError, loadConfig, loadEnvFile, type Config } from "../../shared/config.ts";
+
+// The collector's side of shared/config.ts: collector/.env is read wherever the collector is
+// started from, and relative paths in it point from the collector directory.
+
+export const COLLECTOR_DIR = path.resolve(import.meta.dir, '..');
+
+export const ENV_FILE = path.join(COLLECTOR_DIR, '.env');
+
+export function loadCollectorConfig(options: { file?: string; data_dir?: string } = {}): Config {
+	loadEnvFile(ENV_FILE);
+	return loadConfig({ ...options, base_dir: COLLECTOR_DIR });
+}
+
+// Entry points print configuration problems and exit instead of failing later with a missing file
+export function loadCollectorConfigOrExit(options: { file?: string; data_dir?: string } = {}): Config {
+	try {
+		return loadCollectorConfig(options);
+	} catch (error) {
+		if (error instanceof ConfigError) {
+			console.error(chalk.red(error.message));
+			process.exit(1);
+		}
+		throw error;
+	}
+}
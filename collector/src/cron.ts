@@ -0,0 +1,128 @@
+// Minimal five-field cron expressions (minute hour day-of-month month day-of-week) in local
+// time. Fields accept `*`, numbers, ranges (`1-5`), lists (`1,15`), steps (`*/15`, `8-18/2`)
+// and three-letter month/day names. As in standard cron, when both day fields are restricted
+// a time matches if either one does.
+
+export type CronSchedule = {
+	expression: string;
+	minutes: Set<number>;
+	hours: Set<number>;
+	days: Set<number>;
+	months: Set<number>;
+	weekdays: Set<number>;
+	days_restricted: boolean;
+	weekdays_restricted: boolean;
+};
+
+const MACROS: { [name: string]: string } = {
+	'@hourly': '0 * * * *',
+	'@daily': '0 0 * * *',
+	'@weekly': '0 0 * * 0',
+	'@monthly': '0 0 1 * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, names: string[] | null, offset: number): number {
+	const index = names ? names.indexOf(value.toLowerCase()) : -1;
+	if (index >= 0) {
+		return index + offset;
+	}
+	if (!/^\d+$/.test(value)) {
+		throw new Error(`"${value}" is not a number`);
+	}
+	return parseInt(value);
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null = null, offset = 0): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(',')) {
+		const [range, step_text] = part.split('/');
+		const step = step_text === undefined ? 1 : parseValue(step_text, null, 0);
+		if (step < 1) {
+			throw new Error(`step in "${part}" must be at least 1`);
+		}
+
+		let start = min;
+		let end = max;
+		if (range !== '*') {
+			const [from, to] = range.split('-');
+			start = parseValue(from, names, offset);
+			end = to === undefined ? (step_text === undefined ? start : max) : parseValue(to, names, offset);
+		}
+		if (start < min || end > max || start > end) {
+			throw new Error(`"${part}" is outside ${min}-${max}`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+	const fields = (MACROS[expression.trim().toLowerCase()] || expression).trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day month weekday)`);
+	}
+
+	try {
+		const weekdays = parseField(fields[4], 0, 7, DAY_NAMES);
+		// 7 is an alias for Sunday
+		if (weekdays.delete(7)) {
+			weekdays.add(0);
+		}
+
+		return {
+			expression,
+			minutes: parseField(fields[0], 0, 59),
+			hours: parseField(fields[1], 0, 23),
+			days: parseField(fields[2], 1, 31),
+			months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+			weekdays,
+			days_restricted: fields[2] !== '*',
+			weekdays_restricted: fields[4] !== '*'
+		};
+	} catch (error) {
+		throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+	const day = schedule.days.has(date.getDate());
+	const weekday = schedule.weekdays.has(date.getDay());
+	if (schedule.days_restricted && schedule.weekdays_restricted) {
+		return day || weekday;
+	}
+	return day && weekday;
+}
+
+// First matching minute strictly after `after`
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+	const time = new Date(after);
+	time.setSeconds(0, 0);
+	time.setMinutes(time.getMinutes() + 1);
+
+	// Each step skips a whole month, day, hour or minute, so this bound covers several years
+	for (let step = 0; step < 100000; step++) {
+		if (!schedule.months.has(time.getMonth() + 1)) {
+			time.setMonth(time.getMonth() + 1, 1);
+			time.setHours(0, 0, 0, 0);
+		} else if (!dayMatches(schedule, time)) {
+			time.setDate(time.getDate() + 1);
+			time.setHours(0, 0, 0, 0);
+		} else if (!schedule.hours.has(time.getHours())) {
+			time.setHours(time.getHours() + 1, 0, 0, 0);
+		} else if (!schedule.minutes.has(time.getMinutes())) {
+			time.setMinutes(time.getMinutes() + 1, 0, 0);
+		} else {
+			return time;
+		}
+	}
+
+	throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import { repairMisfiledYears, resolveTickDate, type DateRange } from "./dates.ts";
+
+// DST cases need a zone that has DST; dates.ts reads the zone on every call, so setting it here is enough
+process.env.TZ = 'America/New_York';
+
+function window(start: string, end: string): DateRange {
+	const [start_year, start_month, start_day] = start.split('-').map(Number);
+	const [end_year, end_month, end_day] = end.split('-').map(Number);
+	return { start: new Date(start_year, start_month - 1, start_day), end: new Date(end_year, end_month - 1, end_day) };
+}
+
+describe('resolveTickDate', () => {
+	test('puts labels inside the window in the window\'s year', () => {
+		expect(resolveTickDate('9/05', window('2025-08-16', '2025-09-15'))).toBe('09/05/2025');
+		expect(resolveTickDate('09/14', window('2025-08-16', '2025-09-15'))).toBe('09/14/2025');
+	});
+
+	test('resolves 2/29 inside a leap-year window', () => {
+		expect(resolveTickDate('2/29', window('2024-02-01', '2024-03-31'))).toBe('02/29/2024');
+	});
+
+	test('rejects 2/29 when no leap year is near the window', () => {
+		expect(resolveTickDate('2/29', window('2025-02-01', '2025-03-31'))).toBeNull();
+	});
+
+	test('splits a window that crosses New Year between the two years', () => {
+		const new_year = window('2024-12-15', '2025-01-14');
+		expect(resolveTickDate('12/20', new_year)).toBe('12/20/2024');
+		expect(resolveTickDate('12/31', new_year)).toBe('12/31/2024');
+		expect(resolveTickDate('1/01', new_year)).toBe('01/01/2025');
+		expect(resolveTickDate('1/14', new_year)).toBe('01/14/2025');
+	});
+
+	test('keeps DST transition days on their own date', () => {
+		expect(resolveTickDate('3/09', window('2025-03-09', '2025-03-09'))).toBe('03/09/2025');
+		expect(resolveTickDate('11/02', window('2025-11-02', '2025-11-02'))).toBe('11/02/2025');
+		// A window whose edges are the transition days, as a request spanning them would be
+		expect(resolveTickDate('3/08', window('2025-03-09', '2025-11-02'))).toBe('03/08/2025');
+		expect(resolveTickDate('11/03', window('2025-03-09', '2025-11-02'))).toBe('11/03/2025');
+	});
+
+	test('accepts labels a little outside the window but not far outside it', () => {
+		expect(resolveTickDate('9/20', window('2025-08-16', '2025-09-15'))).toBe('09/20/2025');
+		expect(resolveTickDate('3/01', window('2025-08-16', '2025-09-15'))).toBeNull();
+	});
+
+	test('rejects labels that aren\'t M/DD dates', () => {
+		const range = window('2025-08-16', '2025-09-15');
+		expect(resolveTickDate('13/01', range)).toBeNull();
+		expect(resolveTickDate('9/31', range)).toBeNull();
+		expect(resolveTickDate('Sep 5', range)).toBeNull();
+		expect(resolveTickDate('', range)).toBeNull();
+	});
+});
+
+describe('repairMisfiledYears', () => {
+	test('leaves records that are already correct unchanged', () => {
+		const record = { date: '09/14/2025', usage: 1.2, timestamp: '2025-09-15T10:00:00.000Z', created_at: '2025-09-15T10:00:00.000Z' };
+		const result = repairMisfiledYears([{ ...record }]);
+		expect(result.repaired).toBe(0);
+		expect(result.records).toEqual([record]);
+	});
+
+	test('moves days fetched across New Year back a year', () => {
+		const result = repairMisfiledYears([
+			{ date: '12/30/2025', usage: 1.1, timestamp: '2025-01-02T11:00:00.000Z', created_at: '2025-01-02T11:00:00.000Z' },
+			{ date: '01/01/2025', usage: 1.3, timestamp: '2025-01-02T11:00:00.000Z', created_at: '2025-01-02T11:00:00.000Z' }
+		]);
+		expect(result.repaired).toBe(1);
+		expect(result.records.map(record => record.date)).toEqual(['12/30/2024', '01/01/2025']);
+	});
+
+	test('keeps the most recently written record when the corrected date already exists', () => {
+		const result = repairMisfiledYears([
+			{ date: '12/30/2024', usage: 1.0, timestamp: '2024-12-31T11:00:00.000Z', created_at: '2024-12-31T11:00:00.000Z' },
+			{ date: '12/30/2025', usage: 1.1, timestamp: '2025-01-02T11:00:00.000Z', created_at: '2025-01-02T11:00:00.000Z' }
+		]);
+		expect(result.repaired).toBe(1);
+		expect(result.records).toHaveLength(1);
+		expect(result.records[0]).toMatchObject({ date: '12/30/2024', usage: 1.1 });
+	});
+
+	test('moves a misfiled 2/29 into the leap year before it', () => {
+		const result = repairMisfiledYears([
+			{ date: '02/29/2025', usage: 2.0, timestamp: '2025-02-10T11:00:00.000Z', created_at: '2025-02-10T11:00:00.000Z' }
+		]);
+		expect(result.repaired).toBe(1);
+		expect(result.records.map(record => record.date)).toEqual(['02/29/2024']);
+	});
+
+	test('drops a 2/29 that would move into a year without one', () => {
+		const result = repairMisfiledYears([
+			{ date: '02/29/2024', usage: 2.0, timestamp: '2024-01-10T12:00:00.000Z', created_at: '2024-01-10T12:00:00.000Z' }
+		]);
+		expect(result.repaired).toBe(1);
+		expect(result.records).toEqual([]);
+	});
+
+	test('compares fetch times on DST transition days by local date', () => {
+		// 23:30 EDT on the spring-forward day and 22:30 EST on the fall-back day, already the next day in UTC
+		const spring = '2025-03-10T03:30:00.000Z';
+		const fall = '2025-11-03T03:30:00.000Z';
+		const result = repairMisfiledYears([
+			{ date: '03/09/2025', usage: 1.0, timestamp: spring, created_at: spring },
+			{ date: '11/02/2025', usage: 1.1, timestamp: fall, created_at: fall },
+			// The day after each fetch can't have been read yet, so it belongs to the year before
+			{ date: '03/10/2025', usage: 1.2, timestamp: spring, created_at: spring },
+			{ date: '11/03/2025', usage: 1.3, created_at: fall }
+		]);
+		expect(result.repaired).toBe(2);
+		expect(result.records.map(record => record.date)).toEqual(['03/09/2025', '11/02/2025', '03/10/2024', '11/03/2024']);
+	});
+
+	test('leaves records without a usable fetch time alone', () => {
+		const result = repairMisfiledYears([{ date: '12/30/2099', usage: 1.0 }]);
+		expect(result.repaired).toBe(0);
+		expect(result.records.map(record => record.date)).toEqual(['12/30/2099']);
+	});
+});
@@ -0,0 +1,146 @@
+// Calendar date helpers. Comparisons use UTC day numbers built from local calendar
+// components, so DST transitions never shift a date onto the neighbouring day.
+
+export type DateRange = { start: Date; end: Date };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// How far outside the requested window a returned label may fall and still be accepted
+const TICK_WINDOW_SLACK_DAYS = 31;
+
+function dayNumber(year: number, month: number, day: number): number {
+	return Date.UTC(year, month, day) / MS_PER_DAY;
+}
+
+function localDayNumber(date: Date): number {
+	return dayNumber(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+	const date = new Date(Date.UTC(year, month, day));
+	return date.getUTCFullYear() === year && date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+function formatFullDate(year: number, month: number, day: number): string {
+	return `${(month + 1).toString().padStart(2, '0')}/${day.toString().padStart(2, '0')}/${year}`;
+}
+
+// GetEnergyUsage expects MM/DD/YYYY
+export function formatRequestDate(date: Date): string {
+	return formatFullDate(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function toIsoDate(date: Date): string {
+	const month = (date.getMonth() + 1).toString().padStart(2, '0');
+	const day = date.getDate().toString().padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Parse YYYY-MM-DD as a local calendar date
+export function parseIsoDate(value: string): Date {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) {
+		throw new Error(`Invalid date "${value}", expected YYYY-MM-DD`);
+	}
+
+	const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+	if (toIsoDate(date) !== value) {
+		throw new Error(`Invalid date "${value}"`);
+	}
+	return date;
+}
+
+// When the clocks go back, the wall-clock times of the repeated hour name two instants and
+// new Date(y, m, d, h, min) picks the first. Returns the second one for such a time, else null.
+export function laterOccurrence(time: Date): Date | null {
+	const shift_minutes = new Date(time.getTime() + 3 * 60 * 60 * 1000).getTimezoneOffset() - time.getTimezoneOffset();
+	const later = new Date(time.getTime() + shift_minutes * 60 * 1000);
+	return shift_minutes > 0 && later.getHours() === time.getHours() && later.getMinutes() === time.getMinutes() ? later : null;
+}
+
+// Window used when a response's request range is unknown (e.g. a replayed recording):
+// the 365 days ending today, so every M/DD label maps to its most recent past occurrence
+export function defaultTickWindow(today: Date = new Date()): DateRange {
+	const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+	start.setDate(start.getDate() - 364);
+	return { start, end: today };
+}
+
+// Resolve an M/DD TickSeries label to MM/DD/YYYY using the requested StartDate/EndDate window.
+// Picks the year that puts the date inside the window (or nearest to it), so a December label
+// in a request spanning New Year lands in the previous year. Returns null for invalid labels
+// and for labels that don't fall near the window in any year (e.g. 2/29 outside a leap year).
+export function resolveTickDate(label: string, window: DateRange): string | null {
+	const match = typeof label === 'string' ? label.trim().match(/^(\d{1,2})\/(\d{1,2})$/) : null;
+	if (!match) {
+		return null;
+	}
+
+	const month = parseInt(match[1]) - 1;
+	const day = parseInt(match[2]);
+	const window_start = localDayNumber(window.start);
+	const window_end = localDayNumber(window.end);
+
+	let best: { year: number; distance: number } | null = null;
+	for (let year = window.start.getFullYear() - 1; year <= window.end.getFullYear() + 1; year++) {
+		// Feb 29 only exists in leap years
+		if (!isValidDate(year, month, day)) {
+			continue;
+		}
+
+		const candidate = dayNumber(year, month, day);
+		const distance = candidate < window_start ? window_start - candidate
+			: candidate > window_end ? candidate - window_end
+			: 0;
+
+		if (!best || distance < best.distance) {
+			best = { year, distance };
+		}
+	}
+
+	if (!best || best.distance > TICK_WINDOW_SLACK_DAYS) {
+		return null;
+	}
+	return formatFullDate(best.year, month, day);
+}
+
+// Older versions of the collector filed every M/DD label under the year of the run, so
+// days fetched across New Year ended up a year in the future relative to when they were
+// fetched. Move those back a year; when the corrected date already has a record, keep the
+// most recently written one.
+export function repairMisfiledYears(records: any[]): { records: any[]; repaired: number } {
+	const by_date = new Map<string, any>();
+	let repaired = 0;
+
+	for (const record of records) {
+		const match = typeof record.date === 'string' ? record.date.match(/^(\d{2})\/(\d{2})\/(\d{4})$/) : null;
+		const fetched_at = new Date(record.timestamp || record.created_at);
+
+		if (match && !isNaN(fetched_at.getTime())) {
+			const month = parseInt(match[1]) - 1;
+			const day = parseInt(match[2]);
+			let year = parseInt(match[3]);
+
+			while (dayNumber(year, month, day) > localDayNumber(fetched_at)) {
+				year -= 1;
+			}
+
+			if (year !== parseInt(match[3])) {
+				if (!isValidDate(year, month, day)) {
+					// A Feb 29 that can't exist in the corrected year was never a real reading
+					repaired += 1;
+					continue;
+				}
+				record.date = formatFullDate(year, month, day);
+				repaired += 1;
+			}
+		}
+
+		const existing = by_date.get(record.date);
+		if (!existing || (record.created_at || '') >= (existing.created_at || '')) {
+			by_date.set(record.date, record);
+		}
+	}
+
+	return { records: [...by_date.values()], repaired };
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig } from "../../shared/config.ts";
+import { Duke } from "./duke.ts";
+import { formatRequestDate, parseIsoDate } from "./dates.ts";
+
+// The fall-back day needs a zone that has DST
+process.env.TZ = 'America/New_York';
+
+// 2025-11-02 in New York: the clocks go back at 2:00 AM, so 1:00-1:45 AM is labelled twice
+const FALL_BACK = { start: parseIsoDate('2025-11-02'), end: parseIsoDate('2025-11-02') };
+
+// 12-hour wall-clock labels for every 15 minutes of the fall-back day, 100 in all
+function fallBackLabels(prefix = ''): string[] {
+	const hours = [0, 1, 1, ...Array.from({ length: 22 }, (_, index) => index + 2)];
+	return hours.flatMap(hour => [0, 15, 30, 45].map(minute =>
+		`${prefix}${hour % 12 || 12}:${minute.toString().padStart(2, '0')} ${hour < 12 ? 'AM' : 'PM'}`));
+}
+
+function intervalResponse(labels: string[]) {
+	return { TickSeries: labels, Series1: labels.map((_, index) => ((index % 4) + 1) / 100), UnitOfMeasure: 'kWh' };
+}
+
+let data_dir: string;
+let duke: Duke;
+
+beforeEach(() => {
+	data_dir = fs.mkdtempSync(path.join(os.tmpdir(), 'duke-intervals-'));
+	const config = loadConfig({ env: { HISTORY_RETENTION_DAYS: '0' }, data_dir });
+	duke = new Duke({ offline: true, config, mqtt_options: undefined, electric_intervals: true, interval_retention_days: 0 });
+});
+
+afterEach(() => {
+	fs.rmSync(data_dir, { recursive: true, force: true });
+});
+
+describe('parseJsonIntervalReadings', () => {
+	test('keeps both passes through the repeated hour of a time-only 25-hour day', () => {
+		const parsed = duke.parseJsonIntervalReadings(intervalResponse([...fallBackLabels(), '12:00 AM']), FALL_BACK)!;
+		const times = parsed.readings.map(reading => reading.time);
+
+		expect(parsed.reading_interval).toBe(900);
+		expect(new Set(times).size).toBe(101);
+		expect(times.slice(1).every((time, index) => time - times[index] === 900)).toBe(true);
+		expect(parsed.readings.slice(0, 100).every(reading => formatRequestDate(new Date(reading.time * 1000)) === '11/02/2025')).toBe(true);
+		// The time wrapping past midnight still moves to the next day
+		expect(formatRequestDate(new Date(parsed.readings[100].time * 1000))).toBe('11/03/2025');
+		// 1:00 AM EDT, then 1:00 AM EST an hour later
+		expect(new Date(parsed.readings[4].time * 1000).toISOString()).toBe('2025-11-02T05:00:00.000Z');
+		expect(new Date(parsed.readings[8].time * 1000).toISOString()).toBe('2025-11-02T06:00:00.000Z');
+	});
+
+	test('keeps both passes through the repeated hour of dated labels', () => {
+		const parsed = duke.parseJsonIntervalReadings(intervalResponse(fallBackLabels('11/2 ')), FALL_BACK)!;
+		const times = parsed.readings.map(reading => reading.time);
+
+		expect(new Set(times).size).toBe(100);
+		expect(times.slice(1).every((time, index) => time - times[index] === 900)).toBe(true);
+	});
+});
+
+describe('handleElectricResponse', () => {
+	test('stores all 100 intervals of the fall-back day under that day', () => {
+		const labels = fallBackLabels();
+		const daily = duke.handleElectricResponse(JSON.stringify(intervalResponse(labels)), FALL_BACK, false);
+		const intervals = duke.loadIntervalData();
+
+		expect(intervals).toHaveLength(100);
+		expect(intervals.every(record => record.date === '11/02/2025')).toBe(true);
+		// 25 hours of 0.01 + 0.02 + 0.03 + 0.04 kWh
+		expect(daily).toHaveLength(1);
+		expect(daily[0]).toMatchObject({ date: '11/02/2025', usage_kwh: 2.5 });
+	});
+
+	test('passes on a store error from a JSON response instead of retrying it as XML', () => {
+		duke.storeUsageData = () => {
+			throw new Error('disk full');
+		};
+		expect(() => duke.handleElectricResponse(JSON.stringify(intervalResponse(fallBackLabels())), FALL_BACK, false)).toThrow('disk full');
+	});
+});
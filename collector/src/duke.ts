@@ -1,23 +1,175 @@
 ﻿import chalk from "chalk";
 import { XMLParser } from "fast-xml-parser";
-import puppeteer, {Browser} from "puppeteer";
+import puppeteer, {Browser, type CookieParam, type Page} from "puppeteer";
 import fs from "fs";
+import { formatRequestDate, defaultTickWindow, laterOccurrence, resolveTickDate, repairMisfiledYears, toIsoDate, type DateRange } from "./dates.ts";
+import { createUsageStore, toStorageDate, type SeriesKey, type StorageBackend, type UsageStore } from "../../shared/storage.ts";
+import { TariffEngine, groupIntervalsByDate, type BillingPeriodOf, type DayCost } from "../../shared/tariff.ts";
+import { aggregateUsage } from "../../shared/aggregate.ts";
+import { accountFromConfig, meterFor, type Account } from "../../shared/accounts.ts";
+import type { Config } from "../../shared/config.ts";
+import { loadCollectorConfig } from "./config.ts";
+import { appendRun, runLogFile, type RunRecord, type RunServiceRecord } from "../../shared/runs.ts";
+import { findGaps } from "../../shared/gaps.ts";
+import { anomalyOptions, detectAnomalies } from "../../shared/anomalies.ts";
+import { loadTemperatures, normalizeUsage } from "../../shared/weather.ts";
+import { refetchGaps } from "./gaps.ts";
+import { MqttPublisher, mqttOptionsFromEnv, type MqttOptions } from "./mqtt.ts";
+import { buildBillingCycles, billingPeriodOf, findBillingPeriods, loadReadDates, saveReadDates } from "./billing.ts";
+import { clearSession, formatSessionAge, loadSession, saveSession, sessionStatus, type SessionStatus, type StoredSession } from "./session.ts";
+import { getMfaCode, mfaOptionsFromEnv, type MfaOptions } from "./mfa.ts";
+import { ApiError, CredentialsError, MfaRequiredError, NetworkTimeoutError, PageLayoutError, PayloadError, classifyError, withRetry, type CollectorError, type ErrorKind } from "./errors.ts";
 
-function sleep(ms: number) {
+export type ServiceResult = { success: boolean; error: CollectorError | null; data_points: number; records_added: number; records_updated: number };
+
+// Outcome of one fetch_once() run; `success` is false when no service could be collected.
+// `error_kind` is set when anything failed: the sign-in's kind, else the first failed service's.
+export type FetchResults = {
+	gas: ServiceResult;
+	electric: ServiceResult;
+	success: boolean;
+	error?: CollectorError;
+	error_kind?: ErrorKind;
+	session?: SessionStatus;
+};
+
+const EMAIL_SELECTOR = "#Split-Sign-In-signInUsername_tealeaf-unmask";
+const PASSWORD_SELECTOR = "#Split-Sign-In-signInPassword";
+const SUBMIT_SELECTOR = "button[type=submit]";
+// Verification-code field of the MFA step (MFA_CODE_SELECTOR overrides)
+const MFA_CODE_SELECTOR = [
+	'input[autocomplete="one-time-code"]',
+	'input[name*="verification" i]',
+	'input[id*="verification" i]',
+	'input[name*="passcode" i]',
+	'input[id*="passcode" i]',
+	'input[name*="otp" i]',
+	'input[id*="otp" i]'
+].map(selector => `${selector}:not([type=hidden])`).join(', ');
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:89.0) Gecko/20100101 Firefox/89.0';
+
+export function sleep(ms: number) {
 	return new Promise((resolve) => {
 		setTimeout(resolve, ms);
 	});
 }
 
+// Duke fields that come from the configuration; values passed to the constructor override them
+function settingsFromConfig(config: Config): Partial<Duke> {
+	return {
+		config,
+		data_dir: config.data_dir,
+		email: config.email,
+		password: config.password,
+		account: accountFromConfig(config),
+		electric_intervals: config.electric_intervals.enabled,
+		interval_frequency: config.electric_intervals.frequency,
+		interval_retention_days: config.electric_intervals.retention_days,
+		storage_backend: config.storage.backend,
+		sqlite_path: config.storage.sqlite_path,
+		history_retention_days: config.storage.history_retention_days,
+		tariff_file: config.tariff_file,
+		billing_cycle_day: config.billing_cycle_day,
+		recent_days: config.exports.recent_days,
+		therms_per_ccf: config.exports.therms_per_ccf,
+		gap_refetch: config.gaps.refetch,
+		gap_lookback_days: config.gaps.lookback_days,
+		gap_max_attempts: config.gaps.max_attempts,
+		alerts: config.alerts,
+		weather: config.weather
+	};
+}
+
 export class Duke {
 	browser: Browser | undefined;
-	refresh_interval_min = 15;
 	db_store: ((raw_data: any) => Promise<any>) | undefined;
-	gas_history_file = '../data/gas/duke-gas-history.json';
-	electric_history_file = '../data/electric/duke-electric-history.json';
+	// Settings from config.json and the environment (see config.ts); the fields below start from it
+	config!: Config;
+	data_dir!: string;
+	email!: string;
+	password!: string;
+	// Account and meters this instance collects (see accounts.ts); the configured account by default
+	account!: Account;
+	// Files shared by every account (tariff, stored session); defaults to data_dir
+	shared_dir = '';
+	// Point these at the local mock portal (src/mock-portal.ts) to run without a network
+	login_url = process.env.DUKE_LOGIN_URL || "https://www.duke-energy.com/my-account/sign-in";
+	api_url = process.env.DUKE_API_URL || "https://p-auth.duke-energy.com/form/PlanRate/GetEnergyUsage";
+	// Offline mode (replay) processes recorded responses and needs no credentials
+	offline = false;
+	// Interval mode requests 15-minute electric readings and keeps them in their own store
+	electric_intervals!: boolean;
+	interval_frequency!: string;
+	interval_retention_days!: number;
+	// Daily history lives in JSON files (default) or an embedded SQLite database
+	storage_backend!: StorageBackend;
+	sqlite_path!: string;
+	history_retention_days!: number; // 0 keeps everything
+	store!: UsageStore;
+	// Rate definitions used for every cost figure (defaults to tariff.json in shared_dir or data_dir)
+	tariff_file!: string;
+	tariff!: TariffEngine;
+	// Day of month the meter-read cycle starts on (0 = only use read dates from billing-cycles.json)
+	billing_cycle_day!: number;
+	// Days in the recent export, and the CCF to therms factor for gas readings
+	recent_days!: number;
+	therms_per_ccf!: number;
+	// Missing days older than the regular request are re-requested before it (see gaps.ts)
+	gap_refetch!: boolean;
+	gap_lookback_days!: number;
+	gap_max_attempts!: number;
+	// Thresholds for the usage anomaly alerts in the alerts export (see shared/anomalies.ts)
+	alerts!: Config['alerts'];
+	// Temperature file and balance point for the weather-normalized export (see shared/weather.ts)
+	weather!: Config['weather'];
+	// Latest readings are pushed to MQTT when MQTT_URL is set; the client connects on first publish
+	mqtt_options: MqttOptions | undefined = mqttOptionsFromEnv();
+	mqtt: MqttPublisher | undefined;
+	// Signed-in cookies are kept in session.enc, encrypted with SESSION_KEY (or PASSWORD), and reused while valid
+	session_key = process.env.SESSION_KEY || '';
+	// Page loaded to check a stored session (defaults to the account dashboard next to login_url)
+	session_check_url = process.env.DUKE_SESSION_CHECK_URL || '';
+	session_status: SessionStatus | undefined;
+	// Where verification codes come from when Duke asks for one (TOTP secret, code file or local endpoint)
+	mfa_options: MfaOptions = mfaOptionsFromEnv();
+	mfa_code_selector = process.env.MFA_CODE_SELECTOR || MFA_CODE_SELECTOR;
+	// Records added/updated per service during the current run (for the run log)
+	stored_counts = { GAS: { added: 0, updated: 0 }, ELECTRIC: { added: 0, updated: 0 } };
+
+	get gas_history_file(): string {
+		return `${this.data_dir}/gas/duke-gas-history.json`;
+	}
+
+	get electric_history_file(): string {
+		return `${this.data_dir}/electric/duke-electric-history.json`;
+	}
+
+	get electric_intervals_file(): string {
+		return `${this.data_dir}/electric/duke-electric-intervals.json`;
+	}
+
+	get billing_cycles_file(): string {
+		return `${this.data_dir}/billing-cycles.json`;
+	}
+
+	get gap_state_file(): string {
+		return `${this.data_dir}/gap-state.json`;
+	}
+
+	get session_file(): string {
+		return `${this.shared_dir || this.data_dir}/session.enc`;
+	}
 
 	public constructor(values: Partial<Duke>) {
-		Object.assign(this, values);
+		const config = values.config ?? loadCollectorConfig(values.data_dir ? { data_dir: values.data_dir } : {});
+		Object.assign(this, settingsFromConfig(config), values);
+		this.session_key = this.session_key || this.password;
+		this.store = this.store || createUsageStore({
+			backend: this.storage_backend,
+			data_dir: this.data_dir,
+			sqlite_path: this.sqlite_path
+		});
+		this.tariff = this.tariff || TariffEngine.fromFile(this.tariff_file || `${this.shared_dir || this.data_dir}/tariff.json`);
 		if (!this.valid_config()) {
 			return;
 		}
@@ -25,13 +177,17 @@ export class Duke {
 	}
 
 	valid_config(): boolean {
-		const req_config = ["EMAIL", "PASSWORD", "ACCOUNTNUM"];
-		const optional_config = ["GAS_METERNUM", "ELECTRIC_METERNUM"];
+		if (this.offline) {
+			console.log(chalk.green(`Configured for offline processing in ${this.data_dir}`));
+			return true;
+		}
+
+		const req_config = [["EMAIL", this.email], ["PASSWORD", this.password]];
 		
 		// Check required configs
-		const hasRequired = req_config.every((config) => {
-			if (!process.env[config]) {
-				console.log(chalk.red(`${config} is not set in the .env config! Exiting...`));
+		const hasRequired = req_config.every(([config, value]) => {
+			if (!value) {
+				console.log(chalk.red(`${config} is not set in .env (or ${config.toLowerCase()} in config.json)! Exiting...`));
 				return false;
 			}
 			return true;
@@ -39,23 +195,32 @@ export class Duke {
 
 		if (!hasRequired) return false;
 
+		if (!this.account.account_number) {
+			console.log(chalk.red(`No account number for account "${this.account.label}" (ACCOUNTNUM in .env or account_number in accounts.json)`));
+			return false;
+		}
+
 		// Check that at least one meter is configured
-		const hasGas = process.env.GAS_METERNUM && process.env.GAS_METERNUM.trim();
-		const hasElectric = process.env.ELECTRIC_METERNUM && process.env.ELECTRIC_METERNUM.trim();
+		const hasGas = !!this.account.gas_meter;
+		const hasElectric = !!this.account.electric_meter;
 
 		if (!hasGas && !hasElectric) {
-			console.log(chalk.red("At least one of GAS_METERNUM or ELECTRIC_METERNUM must be set in the .env config!"));
+			console.log(chalk.red(`No meter for account "${this.account.label}": set GAS_METERNUM or ELECTRIC_METERNUM (or a meter in config.json/accounts.json)`));
 			return false;
 		}
 
-		console.log(chalk.green(`Configured for: ${hasGas ? 'Gas' : ''}${hasGas && hasElectric ? ' and ' : ''}${hasElectric ? 'Electric' : ''}`));
+		console.log(chalk.green(`Configured ${this.account.label} account for: ${hasGas ? 'Gas' : ''}${hasGas && hasElectric ? ' and ' : ''}${hasElectric ? 'Electric' : ''}`));
 		return true;
 	}
 
-	// Initialize JSON history files
+	// Initialize data directories and JSON history files
 	initHistoryFiles(): void {
-		if (process.env.GAS_METERNUM) {
-			if (!fs.existsSync(this.gas_history_file)) {
+		if (this.account.gas_meter || this.offline) {
+			// Raw and export files live here whichever store holds the history
+			fs.mkdirSync(`${this.data_dir}/gas`, { recursive: true });
+			if (this.storage_backend !== 'json') {
+				console.log(chalk.green(`Using ${this.storage_backend} gas history store`));
+			} else if (!fs.existsSync(this.gas_history_file)) {
 				fs.writeFileSync(this.gas_history_file, JSON.stringify([], null, 2));
 				console.log(chalk.green(`Created gas history file: ${this.gas_history_file}`));
 			} else {
@@ -63,8 +228,12 @@ export class Duke {
 			}
 		}
 
-		if (process.env.ELECTRIC_METERNUM) {
-			if (!fs.existsSync(this.electric_history_file)) {
+		if (this.account.electric_meter || this.offline) {
+			// Raw and export files live here whichever store holds the history
+			fs.mkdirSync(`${this.data_dir}/electric`, { recursive: true });
+			if (this.storage_backend !== 'json') {
+				console.log(chalk.green(`Using ${this.storage_backend} electric history store`));
+			} else if (!fs.existsSync(this.electric_history_file)) {
 				fs.writeFileSync(this.electric_history_file, JSON.stringify([], null, 2));
 				console.log(chalk.green(`Created electric history file: ${this.electric_history_file}`));
 			} else {
@@ -73,32 +242,42 @@ export class Duke {
 		}
 	}
 
-	// Load historical data from JSON file
+	// Storage series for a service: the service plus the account's meter
+	series(serviceType: 'GAS' | 'ELECTRIC'): SeriesKey {
+		return { service: serviceType, meter: meterFor(this.account, serviceType) || '' };
+	}
+
+	// Load historical data from the history store
 	loadHistoricalData(serviceType: 'GAS' | 'ELECTRIC'): any[] {
-		const filename = serviceType === 'GAS' ? this.gas_history_file : this.electric_history_file;
 		try {
-			const data = fs.readFileSync(filename, 'utf8');
-			return JSON.parse(data);
+			return this.store.load(this.series(serviceType));
 		} catch (error) {
 			console.error(chalk.red(`Error loading ${serviceType.toLowerCase()} historical data:`), error);
 			return [];
 		}
 	}
 
-	// Store usage data in JSON file
-	storeUsageData(usage_data: any[], serviceType: 'GAS' | 'ELECTRIC'): void {
-		if (!usage_data || usage_data.length === 0) return;
+	// Store usage data in the history store (JSON files or SQLite); returns how many records the
+	// retention window removed afterwards
+	storeUsageData(usage_data: any[], serviceType: 'GAS' | 'ELECTRIC'): number {
+		if (!usage_data || usage_data.length === 0) return 0;
 
-		const filename = serviceType === 'GAS' ? this.gas_history_file : this.electric_history_file;
-		let historical_data = this.loadHistoricalData(serviceType);
+		const series = this.series(serviceType);
 
-		// Add new data, avoiding duplicates
-		for (const reading of usage_data) {
-			let new_record: any;
+		// Fix records an older collector filed under the wrong year before merging
+		// (SQLite stores are repaired once by the JSON migration)
+		if (this.storage_backend === 'json') {
+			const repair = repairMisfiledYears(this.loadHistoricalData(serviceType));
+			if (repair.repaired > 0) {
+				this.store.replace(series, repair.records);
+				console.log(chalk.yellow(`Repaired ${repair.repaired} ${serviceType.toLowerCase()} records filed under the wrong year`));
+			}
+		}
 
+		const new_records = usage_data.map(reading => {
 			if (serviceType === 'GAS') {
-				const usage_therms = reading.usage_ccf * 1.037; // Convert CCF to therms
-				new_record = {
+				const usage_therms = reading.usage_ccf * this.therms_per_ccf; // Convert CCF to therms
+				return {
 					date: reading.full_date,
 					date_label: reading.date,
 					usage_ccf: reading.usage_ccf,
@@ -108,44 +287,140 @@ export class Duke {
 					timestamp: reading.timestamp,
 					created_at: new Date().toISOString()
 				};
-			} else {
-				// Electric data structure
-				new_record = {
-					date: reading.full_date || reading.date,
-					date_label: reading.date_label || reading.date,
-					usage_kwh: reading.energy || reading.usage_kwh,
-					start_time: reading.startTime,
-					end_time: reading.endTime,
-					unit: 'kWh',
-					timestamp: reading.timestamp || new Date().toISOString(),
-					created_at: new Date().toISOString()
-				};
 			}
 
-			// Check if this date already exists, if so, update it
-			const dateKey = serviceType === 'GAS' ? reading.full_date : (reading.full_date || reading.date);
-			const existing_index = historical_data.findIndex(record => record.date === dateKey);
-			
-			if (existing_index >= 0) {
-				historical_data[existing_index] = new_record;
-				console.log(chalk.yellow(`Updated existing ${serviceType.toLowerCase()} record for ${dateKey}`));
-			} else {
-				historical_data.push(new_record);
-				console.log(chalk.green(`Added new ${serviceType.toLowerCase()} record for ${dateKey}`));
-			}
+			// Electric data structure
+			return {
+				date: reading.full_date || reading.date,
+				date_label: reading.date_label || reading.date,
+				usage_kwh: reading.energy || reading.usage_kwh,
+				start_time: reading.startTime,
+				end_time: reading.endTime,
+				unit: 'kWh',
+				timestamp: reading.timestamp || new Date().toISOString(),
+				created_at: new Date().toISOString()
+			};
+		});
+
+		// Upsert by date, replacing records that already exist
+		const result = this.store.upsert(series, new_records);
+		this.stored_counts[serviceType].added += result.added;
+		this.stored_counts[serviceType].updated += result.updated;
+		console.log(chalk.green(`Added ${result.added} new and updated ${result.updated} existing ${serviceType.toLowerCase()} records`));
+
+		// Drop records past the retention window (0 keeps everything)
+		const pruned = this.store.prune(series, this.history_retention_days);
+		if (pruned > 0) {
+			console.log(chalk.yellow(`Removed ${pruned} ${serviceType.toLowerCase()} records older than ${this.history_retention_days} days`));
+		}
+
+		console.log(chalk.green(`Stored ${usage_data.length} ${serviceType.toLowerCase()} usage records. Total history: ${result.total - pruned} records`));
+		return pruned;
+	}
+
+	// Push the latest stored reading (with its tariff cost) to MQTT. Called once per service at the
+	// end of a run rather than per stored batch, so backfill chunks and gap refetches don't each
+	// republish the retained state.
+	publishLatest(serviceType: 'GAS' | 'ELECTRIC'): void {
+		if (!this.mqtt_options) {
+			return;
 		}
 
-		// Sort by date (oldest first)
-		historical_data.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+		const historical_data = this.loadHistoricalData(serviceType);
+		const latest = historical_data[historical_data.length - 1];
+		if (!latest) {
+			return;
+		}
 
-		// Keep only the last 2 years of data
-		const two_years_ago = new Date();
-		two_years_ago.setFullYear(two_years_ago.getFullYear() - 2);
-		historical_data = historical_data.filter(record => new Date(record.date) >= two_years_ago);
+		try {
+			const cost = this.priceHistory(historical_data, serviceType).find(day => day.date === latest.date);
+			this.mqtt = this.mqtt || new MqttPublisher(this.mqtt_options);
+			this.mqtt.publishReading(serviceType, {
+				date: latest.date,
+				usage: serviceType === 'GAS' ? latest.usage_ccf : latest.usage_kwh,
+				unit: serviceType === 'GAS' ? 'CCF' : 'kWh',
+				...(serviceType === 'GAS' ? { usage_therms: latest.usage_therms } : {}),
+				cost_estimate: cost ? parseFloat(cost.total.toFixed(2)) : null
+			}, this.tariff.currency);
+		} catch (error) {
+			console.error(chalk.red(`Error publishing ${serviceType.toLowerCase()} reading to MQTT:`), error);
+		}
+	}
+
+	// Flush and close outbound connections (MQTT) before the process exits
+	async closeOutputs(): Promise<void> {
+		await this.mqtt?.close();
+		this.mqtt = undefined;
+	}
 
-		// Save back to file
-		fs.writeFileSync(filename, JSON.stringify(historical_data, null, 2));
-		console.log(chalk.green(`Stored ${usage_data.length} ${serviceType.toLowerCase()} usage records. Total history: ${historical_data.length} records`));
+	// Load stored electric interval readings (oldest first)
+	loadIntervalData(): any[] {
+		if (!fs.existsSync(this.electric_intervals_file)) {
+			return [];
+		}
+		try {
+			return JSON.parse(fs.readFileSync(this.electric_intervals_file, 'utf8'));
+		} catch (error) {
+			console.error(chalk.red("Error loading electric interval data:"), error);
+			return [];
+		}
+	}
+
+	// Store per-interval kWh keyed by interval start; returns the dates that were touched
+	storeIntervalData(readings: any[], reading_interval: number): string[] {
+		const intervals = new Map<string, any>(this.loadIntervalData().map(record => [record.start_time, record]));
+		const touched_dates = new Set<string>();
+
+		for (const reading of readings) {
+			const start = new Date(reading.time * 1000);
+			const seconds = parseInt(reading.duration || reading_interval);
+			const date = formatRequestDate(start);
+
+			intervals.set(start.toISOString(), {
+				date: date,
+				start_time: start.toISOString(),
+				end_time: new Date(start.getTime() + seconds * 1000).toISOString(),
+				duration_seconds: seconds,
+				// Convert Wh to kWh (readings are typically in Wh)
+				usage_kwh: parseFloat((parseFloat(reading.value) / 1000).toFixed(4)),
+				unit: 'kWh',
+				created_at: new Date().toISOString()
+			});
+			touched_dates.add(date);
+		}
+
+		let interval_data = [...intervals.values()].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+		// Intervals grow ~96 records a day, so they get a shorter retention than daily history (0 keeps everything)
+		if (this.interval_retention_days > 0) {
+			const cutoff = new Date();
+			cutoff.setDate(cutoff.getDate() - this.interval_retention_days);
+			interval_data = interval_data.filter(record => new Date(record.start_time) >= cutoff);
+		}
+
+		fs.writeFileSync(this.electric_intervals_file, JSON.stringify(interval_data, null, 2));
+		console.log(chalk.green(`Stored ${readings.length} electric interval readings. Total intervals: ${interval_data.length}`));
+
+		return [...touched_dates];
+	}
+
+	// Daily electric totals derived from every stored interval of each date
+	deriveDailyFromIntervals(dates: string[]): any[] {
+		const interval_data = this.loadIntervalData();
+
+		return dates.map(date => {
+			const day = interval_data.filter(record => record.date === date);
+			const total = day.reduce((sum, record) => sum + record.usage_kwh, 0);
+			return {
+				date: date,
+				full_date: date,
+				usage_kwh: parseFloat(total.toFixed(3)),
+				startTime: day[0]?.start_time,
+				endTime: day[day.length - 1]?.end_time,
+				unit: "kWh",
+				timestamp: new Date().toISOString()
+			};
+		}).filter(day => day.startTime).sort((a, b) => new Date(a.full_date).getTime() - new Date(b.full_date).getTime());
 	}
 
 	// Export data for Home Assistant in various formats
@@ -158,100 +433,153 @@ export class Duke {
 			return;
 		}
 
+		const costs = this.priceHistory(historical_data, serviceType);
+
 		// Latest reading - FIX: Write to data directory
 		const latest = historical_data[historical_data.length - 1];
-		fs.writeFileSync(`../data/${prefix}/duke-${prefix}-latest.json`, JSON.stringify(latest, null, 2));
+		const latest_cost = costs.find(cost => cost.date === latest.date);
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-latest.json`, JSON.stringify({
+			...latest,
+			cost_estimate: latest_cost ? parseFloat(latest_cost.total.toFixed(2)) : null
+		}, null, 2));
 
-		// Recent data (last 30 days) - FIX: Write to data directory
-		const thirty_days_ago = new Date();
-		thirty_days_ago.setDate(thirty_days_ago.getDate() - 30);
-		const recent_data = historical_data.filter(record => new Date(record.date) >= thirty_days_ago);
-		fs.writeFileSync(`../data/${prefix}/duke-${prefix}-recent.json`, JSON.stringify(recent_data, null, 2));
+		// Recent data (last recent_days days) - FIX: Write to data directory
+		const recent_start = new Date();
+		recent_start.setDate(recent_start.getDate() - this.recent_days);
+		const recent_data = historical_data.filter(record => new Date(record.date) >= recent_start);
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-recent.json`, JSON.stringify(recent_data, null, 2));
 
 		// Monthly summaries - FIX: Write to data directory
-		const monthly_summary = this.createMonthlySummary(historical_data, serviceType);
-		fs.writeFileSync(`../data/${prefix}/duke-${prefix}-monthly.json`, JSON.stringify(monthly_summary, null, 2));
+		const monthly_summary = this.createMonthlySummary(historical_data, serviceType, costs);
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-monthly.json`, JSON.stringify(monthly_summary, null, 2));
+
+		// Billing cycle summaries
+		const billing_summary = this.createBillingSummary(historical_data, serviceType);
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-billing.json`, JSON.stringify(billing_summary, null, 2));
 
 		// Energy stats - FIX: Write to data directory
+		const cost_by_date = new Map(costs.map(cost => [cost.date, cost]));
 		const energy_stats = historical_data.map(record => {
+			const cost = cost_by_date.get(record.date);
+			const priced = {
+				cost_estimate: cost ? parseFloat(cost.total.toFixed(2)) : null,
+				tariff: cost?.tariff ?? null
+			};
 			if (serviceType === 'GAS') {
 				return {
 					date: record.date,
 					ccf: record.usage_ccf,
 					therms: record.usage_therms,
-					cost_estimate: parseFloat((record.usage_ccf * 0.5685).toFixed(2)) // Your actual gas rate
+					...priced
 				};
 			} else {
 				return {
 					date: record.date,
 					kwh: record.usage_kwh,
-					cost_estimate: parseFloat((record.usage_kwh * 0.0929).toFixed(2)) // Your actual electric rate
+					...priced
 				};
 			}
 		});
-		fs.writeFileSync(`../data/${prefix}/duke-${prefix}-energy-stats.json`, JSON.stringify(energy_stats, null, 2));
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-energy-stats.json`, JSON.stringify(energy_stats, null, 2));
 
 		if (serviceType === 'GAS') {
 			console.log(chalk.green(`Latest gas reading: ${latest.usage_ccf} CCF (${latest.usage_therms} therms) on ${latest.date_label}`));
 		} else {
 			console.log(chalk.green(`Latest electric reading: ${latest.usage_kwh} kWh on ${latest.date_label || latest.date}`));
 		}
+		// Unusually high days in the recent window, newest first
+		const alerts = detectAnomalies(historical_data, serviceType, { ...anomalyOptions(this.alerts, serviceType), from: toIsoDate(recent_start) });
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-alerts.json`, JSON.stringify(alerts, null, 2));
+		const latest_alert = alerts.find(alert => alert.date === toStorageDate(latest.date));
+		if (latest_alert) {
+			const line = `${latest_alert.severity === 'critical' ? 'Critical' : 'Warning'}: ${prefix} usage on ${latest_alert.date}: ${latest_alert.reason}`;
+			console.log(latest_alert.severity === 'critical' ? chalk.red(line) : chalk.yellow(line));
+		}
+
+		// Usage against heating/cooling degree days, when a temperature file is available
+		try {
+			const temperatures = loadTemperatures(this.weather.file);
+			if (temperatures.length > 0) {
+				const weather = normalizeUsage(historical_data, serviceType, temperatures, this.weather);
+				fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-weather.json`, JSON.stringify(weather, null, 2));
+			}
+		} catch (error) {
+			console.error(chalk.red(`Error exporting weather-normalized ${prefix} usage:`), error);
+		}
+
+		// Days still missing, or zero/null while the meter normally reports (see shared/gaps.ts)
+		const gaps = findGaps(historical_data, serviceType);
+		fs.writeFileSync(`${this.data_dir}/${prefix}/duke-${prefix}-gaps.json`, JSON.stringify(gaps, null, 2));
+		if (gaps.gaps.length > 0) {
+			console.log(chalk.yellow(`${prefix} history has ${gaps.missing_days} missing and ${gaps.suspect_days} suspect days in ${gaps.gaps.length} gaps`));
+		}
+
 		console.log(chalk.blue(`Total ${prefix} historical records: ${historical_data.length}`));
-		console.log(chalk.blue(`Recent ${prefix} records (30 days): ${recent_data.length}`));
+		console.log(chalk.blue(`Recent ${prefix} records (${this.recent_days} days): ${recent_data.length}`));
+	}
+
+	// Price daily history with the configured tariff; interval readings feed time-of-use plans
+	priceHistory(historical_data: any[], serviceType: 'GAS' | 'ELECTRIC', periodOf?: BillingPeriodOf): DayCost[] {
+		const intervals = serviceType === 'ELECTRIC' ? groupIntervalsByDate(this.loadIntervalData()) : new Map();
+		return this.tariff.priceDays(serviceType, historical_data, intervals, periodOf);
 	}
 
 	// Create monthly usage summaries
-	createMonthlySummary(historical_data: any[], serviceType: 'GAS' | 'ELECTRIC'): any[] {
-		const monthly_data: { [key: string]: any } = {};
-
-		for (const record of historical_data) {
-			const date = new Date(record.date);
-			const month_key = `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}`;
-
-			if (!monthly_data[month_key]) {
-				if (serviceType === 'GAS') {
-					monthly_data[month_key] = {
-						month: month_key,
-						total_ccf: 0,
-						total_therms: 0,
-						days: 0,
-						average_daily_ccf: 0,
-						average_daily_therms: 0
-					};
-				} else {
-					monthly_data[month_key] = {
-						month: month_key,
-						total_kwh: 0,
-						days: 0,
-						average_daily_kwh: 0
-					};
-				}
-			}
+	createMonthlySummary(historical_data: any[], serviceType: 'GAS' | 'ELECTRIC', costs: DayCost[] = this.priceHistory(historical_data, serviceType)): any[] {
+		return aggregateUsage(historical_data, serviceType, 'month', costs);
+	}
 
-			if (serviceType === 'GAS') {
-				monthly_data[month_key].total_ccf += record.usage_ccf;
-				monthly_data[month_key].total_therms += record.usage_therms;
-			} else {
-				monthly_data[month_key].total_kwh += record.usage_kwh;
-			}
-			monthly_data[month_key].days += 1;
+	// Create per-billing-cycle summaries; tariff blocks and monthly charges follow the cycles too
+	createBillingSummary(historical_data: any[], serviceType: 'GAS' | 'ELECTRIC'): any[] {
+		const dates = historical_data.map(record => toStorageDate(record.date)).sort();
+		const read_dates = loadReadDates(this.billing_cycles_file)[serviceType] ?? [];
+		const cycles = dates.length > 0 ? buildBillingCycles(read_dates, this.billing_cycle_day, dates[0], dates[dates.length - 1]) : [];
+
+		if (cycles.length === 0) {
+			console.log(chalk.yellow(`No ${serviceType.toLowerCase()} billing cycles configured (set BILLING_CYCLE_DAY or add read dates to ${this.billing_cycles_file})`));
+			return [];
 		}
 
-		// Calculate averages
-		Object.keys(monthly_data).forEach(key => {
-			const month = monthly_data[key];
+		const costs = this.priceHistory(historical_data, serviceType, billingPeriodOf(cycles));
+		const cost_by_date = new Map(costs.map(cost => [cost.date, cost]));
+
+		return cycles.map(cycle => {
+			const records = historical_data.filter(record => {
+				const date = toStorageDate(record.date);
+				return date >= cycle.start && date <= cycle.end;
+			});
+			const totals = this.tariff.totals(records.map(record => cost_by_date.get(record.date)).filter((cost): cost is DayCost => !!cost));
+			const summary: any = {
+				cycle_start: cycle.start,
+				cycle_end: cycle.end,
+				cycle_days: cycle.days,
+				days: records.length,
+				complete: records.length === cycle.days,
+				source: cycle.source
+			};
+
 			if (serviceType === 'GAS') {
-				month.average_daily_ccf = parseFloat((month.total_ccf / month.days).toFixed(3));
-				month.average_daily_therms = parseFloat((month.total_therms / month.days).toFixed(3));
-				month.total_ccf = parseFloat(month.total_ccf.toFixed(3));
-				month.total_therms = parseFloat(month.total_therms.toFixed(3));
+				const total_ccf = records.reduce((sum, record) => sum + record.usage_ccf, 0);
+				const total_therms = records.reduce((sum, record) => sum + record.usage_therms, 0);
+				summary.total_ccf = parseFloat(total_ccf.toFixed(3));
+				summary.total_therms = parseFloat(total_therms.toFixed(3));
+				summary.average_daily_ccf = records.length ? parseFloat((total_ccf / records.length).toFixed(3)) : 0;
+				summary.average_daily_therms = records.length ? parseFloat((total_therms / records.length).toFixed(3)) : 0;
 			} else {
-				month.average_daily_kwh = parseFloat((month.total_kwh / month.days).toFixed(3));
-				month.total_kwh = parseFloat(month.total_kwh.toFixed(3));
+				const total_kwh = records.reduce((sum, record) => sum + record.usage_kwh, 0);
+				summary.total_kwh = parseFloat(total_kwh.toFixed(3));
+				summary.average_daily_kwh = records.length ? parseFloat((total_kwh / records.length).toFixed(3)) : 0;
 			}
-		});
 
-		return Object.values(monthly_data).sort((a, b) => a.month.localeCompare(b.month));
+			summary.cost_estimate = totals.total;
+			summary.cost_breakdown = {
+				energy: totals.energy,
+				customer_charge: totals.customer_charge,
+				riders: totals.riders,
+				taxes: totals.taxes
+			};
+			return summary;
+		}).filter(summary => summary.days > 0);
 	}
 
 	async init(): Promise<void> {
@@ -267,29 +595,44 @@ export class Duke {
 	async login(): Promise<void> {
 		console.log(chalk.blue("Starting login process..."));
 		const page = await this.browser!.newPage();
-		await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:89.0) Gecko/20100101 Firefox/89.0');
+		await page.setUserAgent(USER_AGENT);
 		
 		try {
 			console.log(chalk.blue("Navigating to Duke Energy login page..."));
-			await page.goto("https://www.duke-energy.com/my-account/sign-in", { timeout: 60000 });
+			const response = await page.goto(this.login_url, { timeout: 60000 });
+			if (response && !response.ok()) {
+				throw new ApiError(response.status(), `Sign-in page returned HTTP ${response.status()}`);
+			}
 			
 			console.log(chalk.blue("Waiting for email input field..."));
-			await page.waitForSelector("#Split-Sign-In-signInUsername_tealeaf-unmask", { timeout: 30000 });
+			await this.waitForElement(page, EMAIL_SELECTOR, 30000);
 			
 			console.log(chalk.blue("Typing email..."));
-			await page.type("#Split-Sign-In-signInUsername_tealeaf-unmask", process.env.EMAIL!);
+			await page.type(EMAIL_SELECTOR, this.email);
 			
 			console.log(chalk.blue("Waiting for password input field..."));
-			await page.waitForSelector("#Split-Sign-In-signInPassword", { timeout: 10000 });
+			await this.waitForElement(page, PASSWORD_SELECTOR, 10000);
 			
 			console.log(chalk.blue("Typing password..."));
-			await page.type("#Split-Sign-In-signInPassword", process.env.PASSWORD!);
+			await page.type(PASSWORD_SELECTOR, this.password);
 			
 			console.log(chalk.blue("Clicking submit button..."));
-			await page.click("button[type=submit]");
+			await this.waitForElement(page, SUBMIT_SELECTOR, 10000);
+			await page.click(SUBMIT_SELECTOR);
 			
 			console.log(chalk.blue("Waiting for navigation after login..."));
-			await page.waitForNavigation({ timeout: 60000 });
+			// A rejected sign-in either reloads the form or shows an error in place without navigating
+			const navigated = await this.waitForSignInStep(page);
+			if (await page.$(this.mfa_code_selector)) {
+				await this.completeMfa(page);
+			} else {
+				if (await page.$(PASSWORD_SELECTOR)) {
+					throw new CredentialsError("Sign-in was rejected, check EMAIL and PASSWORD in .env");
+				}
+				if (!navigated) {
+					throw new NetworkTimeoutError("Timed out waiting for the page after signing in");
+				}
+			}
 			
 			console.log(chalk.green("Login completed successfully!"));
 			console.log(chalk.green(`Current URL: ${page.url()}`));
@@ -300,37 +643,223 @@ export class Duke {
 		}
 	}
 
-	async read_gas_api(): Promise<any> {
-		console.log(chalk.blue("Starting GAS API data retrieval..."));
-		
-		const api_url = "https://p-auth.duke-energy.com/form/PlanRate/GetEnergyUsage";
+	// Resolves true once the page navigates or an MFA code field appears (the challenge may be
+	// added to the sign-in page without a navigation); false if neither happens in time
+	private async waitForSignInStep(page: Page): Promise<boolean> {
+		try {
+			return await Promise.any([
+				page.waitForNavigation({ timeout: 60000 }).then(() => true),
+				page.waitForSelector(this.mfa_code_selector, { timeout: 60000 }).then(() => true)
+			]);
+		} catch (error: any) {
+			const errors: any[] = error.errors ?? [error];
+			const failure = errors.find(item => item.name !== 'TimeoutError');
+			if (failure) {
+				throw failure;
+			}
+			return false;
+		}
+	}
+
+	// Fill in Duke's verification-code step from the configured MFA source
+	private async completeMfa(page: Page): Promise<void> {
+		console.log(chalk.yellow("Duke is asking for a verification code"));
+		const code = await getMfaCode(this.mfa_options);
+
+		await page.type(this.mfa_code_selector, code);
+		const navigation = page.waitForNavigation({ timeout: 60000 }).then(() => true, error => {
+			if (error.name === 'TimeoutError') {
+				return false;
+			}
+			throw error;
+		});
+		const submit = await page.$(SUBMIT_SELECTOR);
+		if (submit) {
+			await submit.click();
+		} else {
+			await page.keyboard.press('Enter');
+		}
+
+		const navigated = await navigation;
+		if (await page.$(this.mfa_code_selector)) {
+			throw new MfaRequiredError("MFA required: the verification code was rejected");
+		}
+		if (!navigated) {
+			throw new NetworkTimeoutError("Timed out waiting for the page after entering the verification code");
+		}
+		console.log(chalk.green("Verification code accepted"));
+	}
+
+	// Sign in only when needed: a stored session that still opens the account dashboard is reused,
+	// otherwise login() runs and the new session is stored for the next run.
+	async ensureSession(): Promise<void> {
+		this.session_status = undefined;
+
+		const stored = this.loadStoredSession();
+		if (stored) {
+			console.log(chalk.blue(`Checking stored session from ${stored.created_at}...`));
+			if (await this.restoreSession(stored)) {
+				stored.reuse_count += 1;
+				stored.last_used_at = new Date().toISOString();
+				this.storeSession(stored);
+				this.session_status = sessionStatus(stored, true);
+				console.log(chalk.green(`Reusing stored session (age ${formatSessionAge(this.session_status.age_minutes)}, reused ${stored.reuse_count} times)`));
+				return;
+			}
+			console.log(chalk.yellow("Stored session has expired, signing in again"));
+			clearSession(this.session_file);
+		}
+
+		await withRetry("Sign-in", () => this.login());
+
+		const now = new Date().toISOString();
+		const session: StoredSession = { email: this.email, cookies: await this.currentCookies(), created_at: now, last_used_at: now, reuse_count: 0 };
+		this.storeSession(session);
+		this.session_status = sessionStatus(session, false);
+	}
+
+	private loadStoredSession(): StoredSession | undefined {
+		if (!this.session_key) {
+			return undefined;
+		}
+		try {
+			const session = loadSession(this.session_file, this.session_key);
+			if (session && session.email !== this.email) {
+				console.log(chalk.yellow("Stored session belongs to a different account, ignoring it"));
+				return undefined;
+			}
+			return session;
+		} catch (error) {
+			console.log(chalk.yellow("Stored session could not be decrypted (SESSION_KEY or PASSWORD changed?), signing in again"));
+			return undefined;
+		}
+	}
+
+	private storeSession(session: StoredSession): void {
+		if (!this.session_key) {
+			return;
+		}
+		try {
+			saveSession(this.session_file, session, this.session_key);
+		} catch (error) {
+			console.error(chalk.red("Error saving session:"), error);
+		}
+	}
+
+	// Load the stored cookies and open the account dashboard; ending up on the sign-in form means the session is gone
+	private async restoreSession(session: StoredSession): Promise<boolean> {
+		const page = await this.browser!.newPage();
+		try {
+			await page.setUserAgent(USER_AGENT);
+			await page.setCookie(...session.cookies);
+
+			const check_url = this.session_check_url || new URL('/my-account/dashboard', this.login_url).href;
+			const response = await page.goto(check_url, { timeout: 30000 });
+			if (response && !response.ok()) {
+				return false;
+			}
+			return new URL(page.url()).pathname !== new URL(this.login_url).pathname && !(await page.$(PASSWORD_SELECTOR));
+		} catch (error) {
+			console.log(chalk.yellow(`Session check failed: ${classifyError(error).message}`));
+			return false;
+		} finally {
+			await page.close();
+		}
+	}
+
+	// Every cookie in the browser, not just the current page's, since sign-in spans several Duke hosts
+	private async currentCookies(): Promise<CookieParam[]> {
+		const page = (await this.browser!.pages())[0] ?? await this.browser!.newPage();
+		const client = await page.createCDPSession();
+		try {
+			const { cookies } = await client.send('Network.getAllCookies');
+			return cookies.map(cookie => ({
+				name: cookie.name,
+				value: cookie.value,
+				domain: cookie.domain,
+				path: cookie.path,
+				expires: cookie.expires,
+				httpOnly: cookie.httpOnly,
+				secure: cookie.secure,
+				sameSite: cookie.sameSite
+			}));
+		} finally {
+			await client.detach();
+		}
+	}
+
+	// Wait for a sign-in form element. The page has already loaded, so a missing element means the layout changed.
+	private async waitForElement(page: Page, selector: string, timeout: number): Promise<void> {
+		try {
+			await page.waitForSelector(selector, { timeout });
+		} catch (error) {
+			throw new PageLayoutError(selector, `Sign-in page element ${selector} not found, the page layout may have changed`, { cause: error });
+		}
+	}
+
+	// POST a GetEnergyUsage request through the signed-in browser and return the raw page content
+	async requestEnergyUsage(request: Record<string, string | undefined>): Promise<string> {
+		const req_json = {
+			request: JSON.stringify(request)
+		};
+
+		const api_page = await this.browser!.newPage();
+		await api_page.setRequestInterception(true);
 		
-		// Get yesterday's date (gas data is typically 1 day behind)
+		api_page.once('request', request => {
+			request.continue({ 
+				method: 'POST', 
+				postData: JSON.stringify(req_json), 
+				headers: {
+					"Accept": "application/json, text/plain, */*",
+					"Content-Type": "application/json",
+					"Cookie": request.headers().Cookie
+				} 
+			});
+		});
+
+		try {
+			const response = await api_page.goto(this.api_url, { timeout: 60000 });
+			if (response && !response.ok()) {
+				// Signed out: make the next run sign in instead of reusing the stored session
+				if (response.status() === 401 || response.status() === 403) {
+					clearSession(this.session_file);
+				}
+				throw new ApiError(response.status(), `GetEnergyUsage returned HTTP ${response.status()} ${response.statusText()}`.trim());
+			}
+			return await api_page.content();
+		} finally {
+			await api_page.close();
+		}
+	}
+
+	// Window of the regular request: the 30 days (gas) or 7 days (electric) before yesterday, through
+	// yesterday, as readings are typically a day behind
+	defaultWindow(serviceType: 'GAS' | 'ELECTRIC'): DateRange {
 		const yesterday = new Date();
 		yesterday.setDate(yesterday.getDate() - 1);
 		
-		// Get past 30 days from yesterday
-		const thirtyDaysAgo = new Date(yesterday);
-		thirtyDaysAgo.setDate(yesterday.getDate() - 30);
-		
-		const formatDate = (date: Date) => {
-			const month = (date.getMonth() + 1).toString().padStart(2, '0');
-			const day = date.getDate().toString().padStart(2, '0');
-			const year = date.getFullYear();
-			return `${month}/${day}/${year}`;
-		};
+		const start = new Date(yesterday);
+		start.setDate(yesterday.getDate() - (serviceType === 'GAS' ? 30 : 7));
+		return { start, end: yesterday };
+	}
+
+	// Defaults to the 30 days ending yesterday; backfill passes its own range and exports once at the end
+	async read_gas_api(range?: DateRange, exportData = true): Promise<any> {
+		console.log(chalk.blue("Starting GAS API data retrieval..."));
 		
-		const startDate = formatDate(thirtyDaysAgo);
-		const endDate = formatDate(yesterday);
+		const window = range || this.defaultWindow('GAS');
+		const startDate = formatRequestDate(window.start);
+		const endDate = formatRequestDate(window.end);
 		
 		console.log(chalk.blue(`Requesting gas data from ${startDate} to ${endDate}`));
 		
-		const req_json = {
-			request: JSON.stringify({
-				"SrcAcctId": process.env.ACCOUNTNUM,
+		try {
+			const api_response = await this.requestEnergyUsage({
+				"SrcAcctId": this.account.account_number,
 				"SrcAcctId2": "",
 				"SrcSysCd": "ISU",
-				"MeterSerialNumber": process.env.GAS_METERNUM?.trim(),
+				"MeterSerialNumber": this.account.gas_meter,
 				"IntervalFrequency": "dailyEnergy",
 				"Netmetering": "N",
 				"PeriodType": "Month",
@@ -341,49 +870,9 @@ export class Duke {
 				"AgrmtStartDt": "",
 				"AgrmtEndDt": "",
 				"MeterCertDt": ""
-			})
-		};
-
-		try {
-			const api_page = await this.browser!.newPage();
-			await api_page.setRequestInterception(true);
-			
-			api_page.once('request', request => {
-				request.continue({ 
-					method: 'POST', 
-					postData: JSON.stringify(req_json), 
-					headers: {
-						"Accept": "application/json, text/plain, */*",
-						"Content-Type": "application/json",
-						"Cookie": request.headers().Cookie
-					} 
-				});
 			});
 
-			await api_page.goto(api_url, { timeout: 60000 });
-			const api_response = await api_page.content();
-
-			// Parse JSON response
-			const jsonMatch = api_response.match(/\{.*\}/s);
-			if (!jsonMatch) {
-				throw new Error("No JSON found in gas API response");
-			}
-
-			const gas_data = JSON.parse(jsonMatch[0]);
-			console.log(chalk.green("Successfully parsed gas JSON response!"));
-			
-			// Save raw response
-			fs.writeFileSync("../data/gas/duke-gas-raw.json", JSON.stringify(gas_data, null, 2));
-			
-			// Process the data
-			const processed_data = this.processGasData(gas_data);
-			
-			// Store and export
-			this.storeUsageData(processed_data, 'GAS');
-			this.exportForHomeAssistant('GAS');
-			
-			console.log(chalk.green(`Successfully processed ${processed_data.length} days of gas usage data`));
-			return processed_data;
+			return this.handleGasResponse(api_response, window, exportData);
 			
 		} catch (error) {
 			console.error(chalk.red("Error in gas API:"), error);
@@ -391,38 +880,52 @@ export class Duke {
 		}
 	}
 
-	async read_electric_api(): Promise<any> {
-		console.log(chalk.blue("Starting ELECTRIC API data retrieval..."));
+	// Parse a GetEnergyUsage gas response (live page content or a recording) and run the store/export pipeline.
+	// `window` is the requested StartDate/EndDate, used to put each M/DD label in the right year.
+	handleGasResponse(api_response: string, window: DateRange = defaultTickWindow(), exportData = true): any[] {
+		// Parse JSON response
+		const jsonMatch = api_response.match(/\{.*\}/s);
+		if (!jsonMatch) {
+			throw new PayloadError("No JSON found in gas API response");
+		}
+
+		const gas_data = JSON.parse(jsonMatch[0]);
+		console.log(chalk.green("Successfully parsed gas JSON response!"));
 		
-		const api_url = "https://p-auth.duke-energy.com/form/PlanRate/GetEnergyUsage";
+		// Save raw response
+		fs.writeFileSync(`${this.data_dir}/gas/duke-gas-raw.json`, JSON.stringify(gas_data, null, 2));
 		
-		// Get yesterday's data (electric data is also typically 1 day behind)
-		const yesterday = new Date();
-		yesterday.setDate(yesterday.getDate() - 1);
+		// Process the data
+		const processed_data = this.processGasData(gas_data, window);
 		
-		// Get past 7 days from yesterday for electric data
-		const sevenDaysAgo = new Date(yesterday);
-		sevenDaysAgo.setDate(yesterday.getDate() - 7);
+		// Store and export
+		this.storeUsageData(processed_data, 'GAS');
+		if (exportData) {
+			this.exportForHomeAssistant('GAS');
+		}
 		
-		const formatDate = (date: Date) => {
-			const month = (date.getMonth() + 1).toString().padStart(2, '0');
-			const day = date.getDate().toString().padStart(2, '0');
-			const year = date.getFullYear();
-			return `${month}/${day}/${year}`;
-		};
+		console.log(chalk.green(`Successfully processed ${processed_data.length} days of gas usage data`));
+		return processed_data;
+	}
+
+	// Defaults to the 7 days ending yesterday; backfill passes its own range and exports once at the end
+	async read_electric_api(range?: DateRange, exportData = true): Promise<any> {
+		console.log(chalk.blue("Starting ELECTRIC API data retrieval..."));
 		
-		const startDate = formatDate(sevenDaysAgo);
-		const endDate = formatDate(yesterday);
+		const window = range || this.defaultWindow('ELECTRIC');
+		const startDate = formatRequestDate(window.start);
+		const endDate = formatRequestDate(window.end);
 		
 		console.log(chalk.blue(`Requesting electric data from ${startDate} to ${endDate}`));
 		
-		const req_json = {
-			request: JSON.stringify({
-				"SrcAcctId": process.env.ACCOUNTNUM,
+		try {
+			const api_response = await this.requestEnergyUsage({
+				"SrcAcctId": this.account.account_number,
 				"SrcAcctId2": "",
 				"SrcSysCd": "ISU",
-				"MeterSerialNumber": process.env.ELECTRIC_METERNUM?.trim(),
-				"IntervalFrequency": "dailyEnergy", // Get daily totals instead of 15-minute intervals
+				"MeterSerialNumber": this.account.electric_meter,
+				// Daily totals unless interval mode is on, in which case 15-minute readings come back as ESPI XML
+				"IntervalFrequency": this.electric_intervals ? this.interval_frequency : "dailyEnergy",
 				"Netmetering": "N",
 				"PeriodType": "Week",
 				"ServiceType": "ELECTRIC",
@@ -432,95 +935,181 @@ export class Duke {
 				"AgrmtStartDt": "",
 				"AgrmtEndDt": "",
 				"MeterCertDt": ""
-			})
-		};
-
-		try {
-			const api_page = await this.browser!.newPage();
-			await api_page.setRequestInterception(true);
-			
-			api_page.once('request', request => {
-				request.continue({ 
-					method: 'POST', 
-					postData: JSON.stringify(req_json), 
-					headers: {
-						"Accept": "application/json, text/plain, */*",
-						"Content-Type": "application/json",
-						"Cookie": request.headers().Cookie
-					} 
-				});
 			});
 
-			await api_page.goto(api_url, { timeout: 60000 });
-			const api_response = await api_page.content();
+			return this.handleElectricResponse(api_response, window, exportData);
+			
+		} catch (error) {
+			console.error(chalk.red("Error in electric API:"), error);
+			throw error;
+		}
+	}
 
-			// Try JSON first (like gas data)
-			let electric_data;
-			const jsonMatch = api_response.match(/\{.*\}/s);
-			if (jsonMatch) {
-				try {
-					electric_data = JSON.parse(jsonMatch[0]);
-					console.log(chalk.green("Successfully parsed electric JSON response!"));
-					
-					// Save raw response
-					fs.writeFileSync("../data/electric/duke-electric-raw.json", JSON.stringify(electric_data, null, 2));
-					
-					// Process as JSON (similar to gas data)
-					const processed_data = this.processElectricJsonData(electric_data);
-					
-					// Store and export
-					this.storeUsageData(processed_data, 'ELECTRIC');
-					this.exportForHomeAssistant('ELECTRIC');
-					
-					console.log(chalk.green(`Successfully processed ${processed_data.length} days of electric usage data`));
-					return processed_data;
-					
-				} catch (jsonError) {
-					console.log(chalk.yellow("JSON parsing failed, trying XML..."));
-				}
+	// Parse a GetEnergyUsage electric response (JSON or ESPI XML, live or recorded) and run the store/export pipeline
+	handleElectricResponse(api_response: string, window: DateRange = defaultTickWindow(), exportData = true): any[] {
+		// Try JSON first (like gas data)
+		let electric_data;
+		const jsonMatch = api_response.match(/\{.*\}/s);
+		if (jsonMatch) {
+			// Only a parse failure falls through to XML; store and export errors keep their own kind
+			try {
+				electric_data = JSON.parse(jsonMatch[0]);
+				console.log(chalk.green("Successfully parsed electric JSON response!"));
+			} catch (jsonError) {
+				console.log(chalk.yellow("JSON parsing failed, trying XML..."));
 			}
-			
-			// Fallback to XML parsing (original method)
-			console.log(chalk.blue("Parsing as XML..."));
-			const parser = new XMLParser();
-			const parsed_xml = parser.parse(api_response);
-			
-			const raw_data = parsed_xml["html"]["body"]["ns3:entry"]["ns3:link"]["ns3:content"];
-			const data = raw_data["espi:intervalblock"];
-			const reading_interval = data["espi:interval"]["espi:secondsperinterval"];
-			const readings = data["espi:intervalreading"].map((reading: any) => {
-				if (reading["espi:readingquality"] != "ACTUAL") {
-					return undefined;
-				}
-				return {
-					time: reading["espi:timeperiod"]["espi:start"],
-					value: reading["espi:value"]
-				};
-			}).filter((x: any) => x !== undefined);
-			
-			console.log(chalk.green(`Successfully parsed electric XML data! ${readings.length} readings`));
-			
+		}
+
+		if (electric_data !== undefined) {
 			// Save raw response
-			fs.writeFileSync("../data/electric/duke-electric-raw.json", JSON.stringify(raw_data, null, 2));
+			fs.writeFileSync(`${this.data_dir}/electric/duke-electric-raw.json`, JSON.stringify(electric_data, null, 2));
 			
-			// Group readings by day and sum them
-			const dailyData = this.groupElectricReadingsByDay(readings, reading_interval);
+			// Process as JSON (similar to gas data); interval-resolution labels carry a time of day
+			const interval_readings = this.parseJsonIntervalReadings(electric_data, window);
+			const processed_data = interval_readings
+				? this.dailyFromReadings(interval_readings.readings, interval_readings.reading_interval)
+				: this.processElectricJsonData(electric_data, window);
 			
 			// Store and export
-			this.storeUsageData(dailyData, 'ELECTRIC');
-			this.exportForHomeAssistant('ELECTRIC');
-			
-			console.log(chalk.green(`Successfully processed ${dailyData.length} days of electric usage data`));
-			return dailyData;
+			this.storeUsageData(processed_data, 'ELECTRIC');
+			if (exportData) {
+				this.exportForHomeAssistant('ELECTRIC');
+			}
 			
-		} catch (error) {
-			console.error(chalk.red("Error in electric API:"), error);
-			throw error;
+			console.log(chalk.green(`Successfully processed ${processed_data.length} days of electric usage data`));
+			return processed_data;
+		}
+		
+		// Fallback to XML parsing (original method)
+		console.log(chalk.blue("Parsing as XML..."));
+		const parser = new XMLParser();
+		const parsed_xml = parser.parse(api_response);
+		
+		// ESPI feeds may carry UsageSummary billing periods; keep their meter-read dates
+		const read_dates = findBillingPeriods(parsed_xml);
+		if (read_dates.length > 0) {
+			const added = saveReadDates(this.billing_cycles_file, 'ELECTRIC', read_dates);
+			console.log(chalk.blue(`Found ${read_dates.length} billing period dates (${added} new)`));
+		}
+
+		const raw_data = parsed_xml?.["html"]?.["body"]?.["ns3:entry"]?.["ns3:link"]?.["ns3:content"];
+		const data = raw_data?.["espi:intervalblock"];
+		if (!data?.["espi:intervalreading"]) {
+			throw new PayloadError("Electric API response is neither usage JSON nor ESPI interval XML");
 		}
+		const reading_interval = data["espi:interval"]["espi:secondsperinterval"];
+		const readings = data["espi:intervalreading"].map((reading: any) => {
+			if (reading["espi:readingquality"] != "ACTUAL") {
+				return undefined;
+			}
+			return {
+				time: reading["espi:timeperiod"]["espi:start"],
+				duration: reading["espi:timeperiod"]["espi:duration"],
+				value: reading["espi:value"]
+			};
+		}).filter((x: any) => x !== undefined);
+		
+		console.log(chalk.green(`Successfully parsed electric XML data! ${readings.length} readings`));
+		
+		// Save raw response
+		fs.writeFileSync(`${this.data_dir}/electric/duke-electric-raw.json`, JSON.stringify(raw_data, null, 2));
+		
+		const dailyData = this.dailyFromReadings(readings, reading_interval);
+		
+		// Store and export
+		this.storeUsageData(dailyData, 'ELECTRIC');
+		if (exportData) {
+			this.exportForHomeAssistant('ELECTRIC');
+		}
+		
+		console.log(chalk.green(`Successfully processed ${dailyData.length} days of electric usage data`));
+		return dailyData;
+	}
+
+	// Group readings by day and sum them; in interval mode keep the readings and derive the days from the interval store
+	dailyFromReadings(readings: any[], reading_interval: number): any[] {
+		return this.electric_intervals
+			? this.deriveDailyFromIntervals(this.storeIntervalData(readings, reading_interval))
+			: this.groupElectricReadingsByDay(readings, reading_interval);
+	}
+
+	// A JSON response at interval resolution labels each value with a time of day ("9/14 12:15 AM",
+	// "9/14/2025 00:15" or just "12:15 AM"). Returns its values as interval readings in the XML path's
+	// shape ({ time, duration, value } in seconds and Wh), or null when the labels are whole days.
+	// Time-only labels start on the window's first day and move to the next day when the time wraps.
+	// The hour repeated when the clocks go back is placed by its UTC instant, so a 25-hour day keeps
+	// all of its readings on that day.
+	parseJsonIntervalReadings(raw_data: any, window: DateRange): { readings: any[]; reading_interval: number } | null {
+		const labels: any[] = Array.isArray(raw_data?.TickSeries) ? raw_data.TickSeries : [];
+		const values: any[] = Array.isArray(raw_data?.Series1) ? raw_data.Series1 : [];
+		const pattern = /^(?:(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?\s+)?(\d{1,2}):(\d{2})\s*(AM|PM)?$/i;
+		if (!labels.some(label => typeof label === 'string' && pattern.test(label.trim()))) {
+			return null;
+		}
+
+		// Readings are stored in Wh, like the ESPI values
+		const wh_per_unit = /^wh$/i.test(raw_data.UnitOfMeasure || '') ? 1 : 1000;
+		const times: number[] = [];
+		const readings: any[] = [];
+		let day = new Date(window.start.getFullYear(), window.start.getMonth(), window.start.getDate());
+		let previous_time = -Infinity;
+		let skipped = 0;
+
+		labels.forEach((label, index) => {
+			const match = typeof label === 'string' ? label.trim().match(pattern) : null;
+			const value = parseFloat(values[index]);
+			if (!match || isNaN(value)) {
+				skipped += 1;
+				return;
+			}
+
+			let hours = parseInt(match[4]) % (match[6] ? 12 : 24);
+			if (match[6]?.toUpperCase() === 'PM') {
+				hours += 12;
+			}
+			const minutes = hours * 60 + parseInt(match[5]);
+
+			if (match[1]) {
+				const full_date = match[3] ? `${match[1].padStart(2, '0')}/${match[2].padStart(2, '0')}/${match[3]}` : resolveTickDate(`${match[1]}/${match[2]}`, window);
+				if (!full_date) {
+					skipped += 1;
+					return;
+				}
+				const [month, date, year] = full_date.split('/').map(Number);
+				day = new Date(year, month - 1, date);
+			}
+
+			let start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+			if (start.getTime() <= previous_time) {
+				// Either the second pass through the repeated hour or, for time-only labels, the next day
+				const later = laterOccurrence(start);
+				if (later && later.getTime() > previous_time) {
+					start = later;
+				} else if (!match[1]) {
+					day.setDate(day.getDate() + 1);
+					start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), Math.floor(minutes / 60), minutes % 60);
+				}
+			}
+			previous_time = start.getTime();
+
+			times.push(start.getTime() / 1000);
+			readings.push({ time: start.getTime() / 1000, value: value * wh_per_unit });
+		});
+
+		// The interval length is the most common gap between readings (15 minutes without two readings)
+		const gaps = new Map<number, number>();
+		times.slice(1).forEach((time, index) => gaps.set(time - times[index], (gaps.get(time - times[index]) ?? 0) + 1));
+		const reading_interval = [...gaps.entries()].filter(([gap]) => gap > 0).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 900;
+
+		if (skipped > 0) {
+			console.log(chalk.yellow(`Skipped ${skipped} electric interval values whose labels could not be resolved`));
+		}
+		console.log(chalk.green(`Parsed ${readings.length} electric interval readings from JSON (${reading_interval / 60}-minute intervals)`));
+		return { readings, reading_interval };
 	}
 
 	// Process electric data when it comes back as JSON (like gas data)
-	processElectricJsonData(raw_data: any): any[] {
+	processElectricJsonData(raw_data: any, window: DateRange = defaultTickWindow()): any[] {
 		try {
 			if (!raw_data.Series1 || !raw_data.TickSeries) {
 				console.log(chalk.yellow("No electric usage data found in JSON response"));
@@ -531,26 +1120,14 @@ export class Duke {
 			const date_labels = raw_data.TickSeries;
 			
 			const processed_data = [];
-			const current_year = new Date().getFullYear();
 			
 			for (let i = 0; i < usage_values.length; i++) {
 				const usage = parseFloat(usage_values[i]);
 				const date_label = date_labels[i];
 				
-				// Parse the date (M/DD format)
-				let full_date;
-				try {
-					if (date_label && date_label.includes('/')) {
-						const [month, day] = date_label.split('/');
-						if (month && day) {
-							full_date = `${month.padStart(2, '0')}/${day.padStart(2, '0')}/${current_year}`;
-						} else {
-							throw new Error("Invalid date format");
-						}
-					} else {
-						throw new Error("No slash in date");
-					}
-				} catch {
+				// Parse the date (M/DD format), taking the year from the requested window
+				const full_date = resolveTickDate(date_label, window);
+				if (!full_date) {
 					console.log(chalk.yellow(`Invalid electric date format: ${date_label}, skipping this record`));
 					continue;
 				}
@@ -588,7 +1165,7 @@ export class Duke {
 		
 		for (const reading of readings) {
 			const date = new Date(reading.time * 1000);
-			const dateKey = date.toLocaleDateString('en-US', { month: '2-digit', day: '2-digit', year: 'numeric' });
+			const dateKey = formatRequestDate(date);
 			
 			if (!dailyTotals[dateKey]) {
 				dailyTotals[dateKey] = { total: 0, date: date };
@@ -612,7 +1189,7 @@ export class Duke {
 		}).sort((a, b) => new Date(a.full_date).getTime() - new Date(b.full_date).getTime());
 	}
 
-	processGasData(raw_data: any): any[] {
+	processGasData(raw_data: any, window: DateRange = defaultTickWindow()): any[] {
 		try {
 			if (!raw_data.Series1 || !raw_data.TickSeries) {
 				console.log(chalk.yellow("No gas usage data found in response"));
@@ -624,27 +1201,15 @@ export class Duke {
 			const date_labels = raw_data.TickSeries;
 			
 			const processed_data = [];
-			const current_year = new Date().getFullYear();
 			
 			for (let i = 0; i < usage_values.length; i++) {
 				const usage = parseFloat(usage_values[i]);
 				const average = average_values && average_values[i] ? parseFloat(average_values[i]) : null;
 				const date_label = date_labels[i];
 				
-				// Parse the date (M/DD format)
-				let full_date;
-				try {
-					if (date_label && date_label.includes('/')) {
-						const [month, day] = date_label.split('/');
-						if (month && day) {
-							full_date = `${month.padStart(2, '0')}/${day.padStart(2, '0')}/${current_year}`;
-						} else {
-							throw new Error("Invalid date format");
-						}
-					} else {
-						throw new Error("No slash in date");
-					}
-				} catch {
+				// Parse the date (M/DD format), taking the year from the requested window
+				const full_date = resolveTickDate(date_label, window);
+				if (!full_date) {
 					console.log(chalk.yellow(`Invalid gas date format: ${date_label}, skipping this record`));
 					continue;
 				}
@@ -677,31 +1242,40 @@ export class Duke {
 		}
 	}
 
-	async fetch_once(): Promise<void> {
+	// One collection run: sign in, fetch each configured service, close the browser. Safe to call
+	// repeatedly from the same process (see scheduler.ts); the caller decides the exit code.
+	async fetch_once(): Promise<FetchResults> {
 		const start_time = new Date();
-		console.log(chalk.blue(`=== Starting Duke Energy Data Fetch at ${start_time.toISOString()} ===`));
+		const account_label = this.account.default ? '' : ` for ${this.account.label}`;
+		console.log(chalk.blue(`=== Starting Duke Energy Data Fetch${account_label} at ${start_time.toISOString()} ===`));
+		
+		const results: FetchResults = {
+			gas: { success: false, error: null, data_points: 0, records_added: 0, records_updated: 0 },
+			electric: { success: false, error: null, data_points: 0, records_added: 0, records_updated: 0 },
+			success: false
+		};
+		this.stored_counts = { GAS: { added: 0, updated: 0 }, ELECTRIC: { added: 0, updated: 0 } };
 		
 		try {
 			await this.init();
-			await this.login();
+			await this.ensureSession();
+			results.session = this.session_status;
 			
 			console.log(chalk.blue("Login successful, now fetching usage data..."));
 			
-			const results = {
-				gas: { success: false, error: null as any, data_points: 0 },
-				electric: { success: false, error: null as any, data_points: 0 }
-			};
-			
 			// Fetch gas data if configured
-			if (process.env.GAS_METERNUM) {
+			if (this.account.gas_meter) {
+				if (this.gap_refetch) {
+					await refetchGaps(this, 'GAS');
+				}
 				try {
 					console.log(chalk.blue("--- Fetching Gas Data ---"));
-					const gas_data = await this.read_gas_api();
+					const gas_data = await this.fetchWithRetry('GAS');
 					results.gas.success = true;
 					results.gas.data_points = gas_data.length;
 					console.log(chalk.green(`âœ… Gas data collection completed: ${gas_data.length} records`));
 				} catch (error) {
-					results.gas.error = error;
+					results.gas.error = classifyError(error);
 					console.error(chalk.red("âŒ Failed to fetch gas data:"), error);
 				}
 			} else {
@@ -709,64 +1283,141 @@ export class Duke {
 			}
 			
 			// Fetch electric data if configured
-			if (process.env.ELECTRIC_METERNUM) {
+			if (this.account.electric_meter) {
+				if (this.gap_refetch) {
+					await refetchGaps(this, 'ELECTRIC');
+				}
 				try {
 					console.log(chalk.blue("--- Fetching Electric Data ---"));
-					const electric_data = await this.read_electric_api();
+					const electric_data = await this.fetchWithRetry('ELECTRIC');
 					results.electric.success = true;
 					results.electric.data_points = electric_data.length;
 					console.log(chalk.green(`âœ… Electric data collection completed: ${electric_data.length} records`));
 				} catch (error) {
-					results.electric.error = error;
+					results.electric.error = classifyError(error);
 					console.error(chalk.red("âŒ Failed to fetch electric data:"), error);
 				}
 			} else {
 				console.log(chalk.yellow("â­ï¸  Electric meter not configured, skipping electric data collection"));
 			}
 			
+			if (results.gas.success) {
+				this.publishLatest('GAS');
+			}
+			if (results.electric.success) {
+				this.publishLatest('ELECTRIC');
+			}
+			
 			// Summary
 			console.log(chalk.blue("=== Collection Summary ==="));
-			if (process.env.GAS_METERNUM) {
+			if (results.session) {
+				console.log(chalk.blue(results.session.reused
+					? `Session: reused (age ${formatSessionAge(results.session.age_minutes)}, reused ${results.session.reuse_count} times)`
+					: "Session: new sign-in"));
+			}
+			if (this.account.gas_meter) {
 				if (results.gas.success) {
 					console.log(chalk.green(`Gas: âœ… Success (${results.gas.data_points} records)`));
 				} else {
-					console.log(chalk.red(`Gas: âŒ Failed - ${results.gas.error?.message || 'Unknown error'}`));
+					console.log(chalk.red(`Gas: âŒ Failed (${results.gas.error?.kind || 'unknown'}) - ${results.gas.error?.message || 'Unknown error'}`));
 				}
 			}
 			
-			if (process.env.ELECTRIC_METERNUM) {
+			if (this.account.electric_meter) {
 				if (results.electric.success) {
 					console.log(chalk.green(`Electric: âœ… Success (${results.electric.data_points} records)`));
 				} else {
-					console.log(chalk.red(`Electric: âŒ Failed - ${results.electric.error?.message || 'Unknown error'}`));
+					console.log(chalk.red(`Electric: âŒ Failed (${results.electric.error?.kind || 'unknown'}) - ${results.electric.error?.message || 'Unknown error'}`));
 				}
 			}
 			
-			// Exit with appropriate code
-			const anySuccess = results.gas.success || results.electric.success;
-			if (!anySuccess) {
+			results.success = results.gas.success || results.electric.success;
+			results.error_kind = results.gas.error?.kind || results.electric.error?.kind || (results.success ? undefined : 'unknown');
+			if (!results.success) {
 				console.log(chalk.red("âŒ All data collection attempts failed"));
-				process.exit(1);
 			}
 			
 		} catch (error) {
-			console.error(chalk.red("âŒ Critical error in fetch_once:"), error);
-			process.exit(1);
+			results.error = classifyError(error);
+			results.error_kind = results.error.kind;
+			console.error(chalk.red(`âŒ Critical error in fetch_once (${results.error.kind}):`), results.error);
 		} finally {
-			if (this.browser) {
-				console.log(chalk.blue("Closing browser..."));
-				await this.browser.close();
-			}
-			
+			await this.closeBrowser();
+			await this.closeOutputs();
+
 			const end_time = new Date();
 			const duration = end_time.getTime() - start_time.getTime();
+			this.logRun(results, start_time, end_time);
 			console.log(chalk.green(`=== Completed at ${end_time.toISOString()} (took ${Math.round(duration/1000)}s) ===`));
-			
-			process.exit(0);
+		}
+		
+		return results;
+	}
+
+	// Append this run to runs.jsonl in the shared data directory (served at /runs and /status)
+	private logRun(results: FetchResults, start_time: Date, end_time: Date): void {
+		for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+			const result = serviceType === 'GAS' ? results.gas : results.electric;
+			result.records_added = this.stored_counts[serviceType].added;
+			result.records_updated = this.stored_counts[serviceType].updated;
+		}
+
+		const service = (result: ServiceResult, meter: string | undefined): RunServiceRecord => ({
+			configured: !!meter,
+			success: result.success,
+			data_points: result.data_points,
+			records_added: result.records_added,
+			records_updated: result.records_updated,
+			error_kind: result.error?.kind ?? null,
+			error: result.error?.message ?? null
+		});
+
+		const record: RunRecord = {
+			account: this.account.label,
+			started_at: start_time.toISOString(),
+			finished_at: end_time.toISOString(),
+			duration_seconds: Math.round((end_time.getTime() - start_time.getTime()) / 1000),
+			success: results.success,
+			error_kind: results.error_kind ?? null,
+			error: (results.error ?? results.gas.error ?? results.electric.error)?.message ?? null,
+			session_reused: results.session?.reused ?? null,
+			services: {
+				gas: service(results.gas, this.account.gas_meter),
+				electric: service(results.electric, this.account.electric_meter)
+			}
+		};
+
+		try {
+			appendRun(runLogFile(this.shared_dir || this.data_dir), record);
+		} catch (error) {
+			console.error(chalk.red("Error writing the run log:"), error);
 		}
 	}
 
-	// Remove the monitor method since we're running daily
-	// monitor method removed for scheduled execution
+	// Fetch one service's default window, retrying per error kind. An empty result counts as a payload error.
+	private fetchWithRetry(serviceType: 'GAS' | 'ELECTRIC'): Promise<any[]> {
+		const label = serviceType === 'GAS' ? 'Gas' : 'Electric';
+		return withRetry(`${label} fetch`, async () => {
+			const data = serviceType === 'GAS' ? await this.read_gas_api() : await this.read_electric_api();
+			if (data.length === 0) {
+				throw new PayloadError(`${label} response contained no usage records`);
+			}
+			return data;
+		});
+	}
+
+	// Close the browser so nothing stays running between scheduled runs
+	async closeBrowser(): Promise<void> {
+		if (!this.browser) {
+			return;
+		}
+		console.log(chalk.blue("Closing browser..."));
+		try {
+			await this.browser.close();
+		} catch (error) {
+			console.error(chalk.red("Error closing browser:"), error);
+		}
+		this.browser = undefined;
+	}
 }
 
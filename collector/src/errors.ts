@@ -0,0 +1,143 @@
+import chalk from "chalk";
+
+// Collection failures by kind. Each kind has its own retry policy and process exit code, so a
+// rejected password is reported (and never retried) differently from a slow network.
+
+export type ErrorKind = 'credentials' | 'mfa' | 'page_layout' | 'api' | 'payload' | 'timeout' | 'unknown';
+
+export class CollectorError extends Error {
+	kind: ErrorKind;
+
+	constructor(kind: ErrorKind, message: string, options?: { cause?: unknown }) {
+		super(message, options);
+		this.name = new.target.name;
+		this.kind = kind;
+	}
+}
+
+// The sign-in form rejected EMAIL/PASSWORD
+export class CredentialsError extends CollectorError {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super('credentials', message, options);
+	}
+}
+
+// Duke asked for a verification code and none was available, or it was rejected
+export class MfaRequiredError extends CollectorError {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super('mfa', message, options);
+	}
+}
+
+// An expected element (selector) is missing, usually because Duke changed the page
+export class PageLayoutError extends CollectorError {
+	selector: string;
+
+	constructor(selector: string, message: string, options?: { cause?: unknown }) {
+		super('page_layout', message, options);
+		this.selector = selector;
+	}
+}
+
+// The GetEnergyUsage endpoint answered with an HTTP error status
+export class ApiError extends CollectorError {
+	status: number;
+
+	constructor(status: number, message: string, options?: { cause?: unknown }) {
+		super('api', message, options);
+		this.status = status;
+	}
+}
+
+// The response was empty or couldn't be parsed into usage records
+export class PayloadError extends CollectorError {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super('payload', message, options);
+	}
+}
+
+// A navigation or request timed out, or the connection failed
+export class NetworkTimeoutError extends CollectorError {
+	constructor(message: string, options?: { cause?: unknown }) {
+		super('timeout', message, options);
+	}
+}
+
+export type RetryPolicy = {
+	// Total attempts, including the first
+	attempts: number;
+	initial_delay_ms: number;
+	max_delay_ms: number;
+	backoff_factor: number;
+};
+
+export const RETRY_POLICIES: Record<ErrorKind, RetryPolicy> = {
+	// Retrying a bad password only gets the account locked
+	credentials: { attempts: 1, initial_delay_ms: 0, max_delay_ms: 0, backoff_factor: 1 },
+	// Each sign-in attempt sends another code; wait for the next run instead
+	mfa: { attempts: 1, initial_delay_ms: 0, max_delay_ms: 0, backoff_factor: 1 },
+	// A half-loaded page looks the same as a changed one; try once more, then give up
+	page_layout: { attempts: 2, initial_delay_ms: 30000, max_delay_ms: 30000, backoff_factor: 1 },
+	api: { attempts: 3, initial_delay_ms: 15000, max_delay_ms: 120000, backoff_factor: 2 },
+	payload: { attempts: 2, initial_delay_ms: 30000, max_delay_ms: 30000, backoff_factor: 1 },
+	timeout: { attempts: 4, initial_delay_ms: 10000, max_delay_ms: 120000, backoff_factor: 2 },
+	unknown: { attempts: 2, initial_delay_ms: 10000, max_delay_ms: 10000, backoff_factor: 1 }
+};
+
+// 1 stays the generic failure code (and the code for crashes outside fetch_once)
+export const EXIT_CODES: Record<ErrorKind, number> = {
+	unknown: 1,
+	credentials: 10,
+	page_layout: 11,
+	api: 12,
+	payload: 13,
+	timeout: 14,
+	mfa: 15
+};
+
+// Map any thrown value onto a CollectorError; puppeteer timeouts and net::ERR_* failures become timeouts
+export function classifyError(error: unknown): CollectorError {
+	if (error instanceof CollectorError) {
+		return error;
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	if (error instanceof Error && error.name === 'TimeoutError') {
+		return new NetworkTimeoutError(message, { cause: error });
+	}
+	if (/net::ERR_|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/.test(message)) {
+		return new NetworkTimeoutError(message, { cause: error });
+	}
+	if (error instanceof SyntaxError) {
+		return new PayloadError(message, { cause: error });
+	}
+	return new CollectorError('unknown', message, { cause: error });
+}
+
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+	return Math.min(policy.initial_delay_ms * Math.pow(policy.backoff_factor, attempt - 1), policy.max_delay_ms);
+}
+
+// Run `operation`, retrying with exponential backoff according to the policy for the kind of
+// error it throws. The final error is rethrown classified.
+export async function withRetry<T>(label: string, operation: () => Promise<T>, policies: Record<ErrorKind, RetryPolicy> = RETRY_POLICIES): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation();
+		} catch (raw_error) {
+			const error = classifyError(raw_error);
+			const policy = policies[error.kind];
+
+			if (attempt >= policy.attempts) {
+				if (policy.attempts > 1) {
+					console.error(chalk.red(`${label} failed after ${attempt} attempts (${error.kind})`));
+				}
+				throw error;
+			}
+
+			const delay = retryDelay(policy, attempt);
+			console.log(chalk.yellow(`${label} failed (${error.kind}: ${error.message}); retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${policy.attempts})`));
+			await new Promise(resolve => setTimeout(resolve, delay));
+		}
+	}
+}
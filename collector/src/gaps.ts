@@ -0,0 +1,125 @@
+import chalk from "chalk";
+import fs from "fs";
+import type { Duke } from "./duke.ts";
+import { CHUNK_DAYS, splitDateRange } from "./backfill.ts";
+import { formatRequestDate, parseIsoDate, toIsoDate, type DateRange } from "./dates.ts";
+import { addDays, findGaps, gapDates } from "../../shared/gaps.ts";
+
+// Filling the days a missed run left out. The regular request only covers the last 30 days of
+// gas and 7 of electric, so anything older stays missing unless it is asked for again. Each day
+// gets gap_max_attempts answered requests; days Duke never fills stay listed in the gaps export.
+
+export type GapRefetchResult = {
+	service: 'GAS' | 'ELECTRIC';
+	requested_days: number;
+	requests: number;
+	filled_days: number;
+	// Stops at the first failed request; the rest are left for the next run
+	failed: boolean;
+};
+
+// Answered refetches per service and date (YYYY-MM-DD)
+type GapState = {
+	GAS: Record<string, number>;
+	ELECTRIC: Record<string, number>;
+};
+
+function loadState(state_file: string): GapState {
+	const fresh: GapState = { GAS: {}, ELECTRIC: {} };
+	if (!fs.existsSync(state_file)) {
+		return fresh;
+	}
+
+	try {
+		return { ...fresh, ...JSON.parse(fs.readFileSync(state_file, 'utf8')) };
+	} catch (error) {
+		console.error(chalk.red("Error loading gap refetch state, starting over:"), error);
+		return fresh;
+	}
+}
+
+function saveState(state_file: string, state: GapState): void {
+	try {
+		fs.writeFileSync(state_file, JSON.stringify(state, null, 2));
+	} catch (error) {
+		console.error(chalk.red("Error saving gap refetch state:"), error);
+	}
+}
+
+// Runs of consecutive dates as request windows no longer than chunk_days
+export function refetchWindows(dates: string[], chunk_days: number): DateRange[] {
+	const windows: DateRange[] = [];
+	let run: { start: string; end: string } | null = null;
+
+	for (const date of [...dates].sort()) {
+		if (run && addDays(run.end, 1) === date) {
+			run.end = date;
+			continue;
+		}
+		if (run) {
+			windows.push(...splitDateRange(parseIsoDate(run.start), parseIsoDate(run.end), chunk_days));
+		}
+		run = { start: date, end: date };
+	}
+	if (run) {
+		windows.push(...splitDateRange(parseIsoDate(run.start), parseIsoDate(run.end), chunk_days));
+	}
+
+	return windows;
+}
+
+// Request the gaps from the last gap_lookback_days that fall before the regular request's window.
+// Never throws: a failed refetch must not cost the regular collection. Returns null when there
+// was nothing to request.
+export async function refetchGaps(duke: Duke, serviceType: 'GAS' | 'ELECTRIC'): Promise<GapRefetchResult | null> {
+	const prefix = serviceType.toLowerCase();
+	const lookback = new Date();
+	lookback.setDate(lookback.getDate() - duke.gap_lookback_days);
+	const regular_start = toIsoDate(duke.defaultWindow(serviceType).start);
+	const currentGaps = () => gapDates(findGaps(duke.loadHistoricalData(serviceType), serviceType, { from: toIsoDate(lookback) }).gaps);
+
+	const state = loadState(duke.gap_state_file);
+	const attempts = state[serviceType];
+	const dates = currentGaps().filter(date => date < regular_start && (attempts[date] ?? 0) < duke.gap_max_attempts);
+	if (dates.length === 0) {
+		return null;
+	}
+
+	const windows = refetchWindows(dates, CHUNK_DAYS[serviceType]);
+	const result: GapRefetchResult = { service: serviceType, requested_days: dates.length, requests: 0, filled_days: 0, failed: false };
+	console.log(chalk.blue(`--- Refetching ${dates.length} missing ${prefix} days in ${windows.length} requests ---`));
+
+	for (const window of windows) {
+		try {
+			if (serviceType === 'GAS') {
+				await duke.read_gas_api(window, false);
+			} else {
+				await duke.read_electric_api(window, false);
+			}
+		} catch (error) {
+			result.failed = true;
+			console.error(chalk.red(`Failed to refetch ${prefix} ${formatRequestDate(window.start)} - ${formatRequestDate(window.end)}:`), error);
+			break;
+		}
+
+		result.requests += 1;
+		for (const date = new Date(window.start); date <= window.end; date.setDate(date.getDate() + 1)) {
+			const key = toIsoDate(date);
+			attempts[key] = (attempts[key] ?? 0) + 1;
+		}
+	}
+
+	// Forget dates that are no longer gaps (filled, or outside the lookback)
+	const remaining = new Set(currentGaps());
+	for (const date of Object.keys(attempts)) {
+		if (!remaining.has(date)) {
+			delete attempts[date];
+		}
+	}
+	saveState(duke.gap_state_file, state);
+
+	result.filled_days = dates.filter(date => !remaining.has(date)).length;
+	const line = `Refetched ${prefix} gaps: ${result.filled_days}/${result.requested_days} days filled in ${result.requests} requests`;
+	console.log(result.filled_days === result.requested_days ? chalk.green(line) : chalk.yellow(line));
+	return result;
+}
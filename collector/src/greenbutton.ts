@@ -0,0 +1,359 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import { XMLParser } from "fast-xml-parser";
+import type { Duke } from "./duke.ts";
+import { formatRequestDate, parseIsoDate, toIsoDate } from "./dates.ts";
+import { splitCsvLine } from "../../shared/csv.ts";
+import { ESPI } from "../../shared/export.ts";
+import { toStorageDate } from "../../shared/storage.ts";
+
+// Offline import of Green Button "Download My Data" files, to seed history without scraping.
+// ESPI XML feeds and utility CSV exports are both read as timed readings, summed into local
+// days (the collector's TZ) and merged through Duke.storeUsageData like a live response.
+// Days the file only partly covers, estimated readings and days already stored with the
+// same usage are skipped.
+
+type ServiceType = 'GAS' | 'ELECTRIC';
+
+export type ImportResult = {
+	service: ServiceType;
+	file: string;
+	days: number;
+	added: number;
+	updated: number;
+	// Days left alone: unchanged, or not fully covered by the file
+	skipped: number;
+	// Estimated, questionable or unreadable readings that were left out
+	rejected_readings: number;
+	// Records older than storage.history_retention_days, removed again after the import
+	pruned: number;
+};
+
+type ImportReading = {
+	service: ServiceType;
+	// Local YYYY-MM-DD
+	date: string;
+	// Seconds since the epoch, or minutes since local midnight for CSV rows
+	start: number;
+	// Seconds covered, null when the file doesn't say (daily CSV rows)
+	duration: number | null;
+	// CCF for gas, kWh for electric
+	usage: number;
+};
+
+type ParsedFile = {
+	readings: ImportReading[];
+	rejected: number;
+};
+
+// Measured ESPI QualityOfReading codes: valid, manually edited, derived, raw, validated, verified
+// and revenue quality. Estimates (8, 9), questionable (10) and projected (12) readings are left out.
+const MEASURED_QUALITIES = [0, 7, 11, 14, 17, 18, 19];
+
+// ESPI commodities and service kinds that are natural gas rather than electricity
+const GAS_COMMODITY = ESPI.commodity.GAS;
+const GAS_SERVICE_KIND = ESPI.service_kind.GAS;
+
+// ESPI units of measure the importer converts (anything else, e.g. W demand, is skipped)
+const ESPI_UNITS: Record<number, { service: ServiceType; unit: string }> = {
+	72: { service: 'ELECTRIC', unit: 'wh' },
+	169: { service: 'GAS', unit: 'therm' },
+	119: { service: 'GAS', unit: 'ft3' },
+	42: { service: 'GAS', unit: 'm3' }
+};
+
+const CUBIC_FEET_PER_CUBIC_METRE = 35.3147;
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+	return value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+}
+
+function round(value: number): number {
+	return parseFloat(value.toFixed(3));
+}
+
+// Usage in the history's units (CCF or kWh) from a reading in `unit`; null for an unknown unit
+function convertUsage(value: number, unit: string, therms_per_ccf: number): { service: ServiceType; usage: number } | null {
+	switch (unit.toLowerCase().replace(/[\s.]/g, '')) {
+		case 'kwh':
+			return { service: 'ELECTRIC', usage: value };
+		case 'wh':
+			return { service: 'ELECTRIC', usage: value / 1000 };
+		case 'ccf':
+		case 'hcf':
+			return { service: 'GAS', usage: value };
+		case 'therm':
+		case 'therms':
+			return { service: 'GAS', usage: value / therms_per_ccf };
+		case 'cf':
+		case 'ft3':
+		case 'cubicfeet':
+			return { service: 'GAS', usage: value / 100 };
+		case 'mcf':
+			return { service: 'GAS', usage: value * 10 };
+		case 'm3':
+			return { service: 'GAS', usage: value * CUBIC_FEET_PER_CUBIC_METRE / 100 };
+		default:
+			return null;
+	}
+}
+
+function linkHref(entry: any, rel: string): string[] {
+	return asArray(entry?.link).filter((link: any) => link?.['@_rel'] === rel).map((link: any) => String(link['@_href']));
+}
+
+// Every value stored under `key` anywhere below `node`
+function findAll(node: any, key: string): any[] {
+	if (node === null || typeof node !== 'object') {
+		return [];
+	}
+	return Object.entries(node).flatMap(([name, value]) =>
+		name === key ? asArray(value) : asArray(value).flatMap(child => findAll(child, key)));
+}
+
+function measured(reading: any): boolean {
+	return asArray(reading.readingquality).every((quality: any) => {
+		const code = typeof quality === 'object' ? quality?.quality : quality;
+		return code === 'ACTUAL' || MEASURED_QUALITIES.includes(Number(code));
+	});
+}
+
+// An ESPI feed: IntervalBlocks are matched to their ReadingType through the MeterReading links,
+// or use the feed's only ReadingType. Duke's live response (lower-cased, no ReadingType) is read as Wh.
+export function parseEspi(contents: string, therms_per_ccf: number, service?: ServiceType): ParsedFile {
+	const parser = new XMLParser({
+		ignoreAttributes: false,
+		removeNSPrefix: true,
+		transformTagName: (name: string) => name.toLowerCase()
+	});
+	const document = parser.parse(contents);
+
+	const entries = findAll(document, 'entry');
+	const reading_types = new Map<string, any>();
+	const meter_readings = new Map<string, string[]>();
+	const usage_points = new Map<string, any>();
+	for (const entry of entries) {
+		const self = linkHref(entry, 'self')[0];
+		const reading_type = findAll(entry, 'readingtype')[0];
+		if (self && reading_type) {
+			reading_types.set(self, reading_type);
+		}
+		if (self && findAll(entry, 'meterreading').length > 0) {
+			meter_readings.set(self, linkHref(entry, 'related'));
+		}
+		const usage_point = findAll(entry, 'usagepoint')[0];
+		if (self && usage_point) {
+			usage_points.set(self, usage_point);
+		}
+	}
+
+	const readingTypeFor = (entry: any) => {
+		const href = linkHref(entry, 'self')[0] ?? linkHref(entry, 'up')[0] ?? '';
+		const meter_reading = href.replace(/\/IntervalBlock(\/.*)?$/i, '');
+		const related = meter_readings.get(meter_reading) ?? [];
+		return related.map(href => reading_types.get(href)).find(Boolean)
+			?? (reading_types.size === 1 ? [...reading_types.values()][0] : undefined);
+	};
+	const kindFor = (entry: any) => {
+		const href = linkHref(entry, 'self')[0] ?? linkHref(entry, 'up')[0] ?? '';
+		const usage_point = usage_points.get(href.replace(/\/MeterReading(\/.*)?$/i, ''))
+			?? (usage_points.size === 1 ? [...usage_points.values()][0] : undefined);
+		return usage_point?.servicecategory?.kind;
+	};
+
+	const blocks = (entries.length > 0 ? entries : [document]).flatMap(entry =>
+		findAll(entry, 'intervalblock').map(block => ({ block, reading_type: readingTypeFor(entry), kind: kindFor(entry) })));
+	if (blocks.length === 0) {
+		throw new Error('No IntervalBlock found in the Green Button XML');
+	}
+
+	const result: ParsedFile = { readings: [], rejected: 0 };
+	for (const { block, reading_type, kind } of blocks) {
+		// Net metering feeds carry the energy sent back to the grid in its own blocks
+		if (reading_type?.flowdirection !== undefined && Number(reading_type.flowdirection) !== ESPI.flow_forward) {
+			continue;
+		}
+		const uom = reading_type ? ESPI_UNITS[Number(reading_type.uom)] : ESPI_UNITS[ESPI.uom.ELECTRIC];
+		if (!uom) {
+			console.log(chalk.yellow(`Skipping an IntervalBlock in unit ${reading_type?.uom}, which isn't energy or gas volume`));
+			continue;
+		}
+		const block_service = service
+			?? (Number(reading_type?.commodity) === GAS_COMMODITY || Number(kind) === GAS_SERVICE_KIND ? 'GAS' : uom.service);
+		if (block_service !== uom.service) {
+			console.log(chalk.yellow(`Skipping a ${uom.unit} IntervalBlock, which can't be ${block_service.toLowerCase()} usage`));
+			continue;
+		}
+		const multiplier = 10 ** Number(reading_type?.poweroftenmultiplier ?? 0);
+
+		for (const reading of asArray(block.intervalreading)) {
+			const start = Number(reading?.timeperiod?.start);
+			const duration = Number(reading?.timeperiod?.duration);
+			const converted = convertUsage(Number(reading?.value) * multiplier, uom.unit, therms_per_ccf);
+			if (!measured(reading) || !Number.isFinite(start) || !Number.isFinite(duration) || !converted || !Number.isFinite(converted.usage)) {
+				result.rejected += 1;
+				continue;
+			}
+			result.readings.push({ service: block_service, date: toIsoDate(new Date(start * 1000)), start, duration, usage: converted.usage });
+		}
+	}
+	return result;
+}
+
+// YYYY-MM-DD or M/D/YYYY, optionally followed by a time
+function parseCsvDate(value: string): { date: string; minutes: number | null } | null {
+	const match = value.trim().match(/^(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})\/(\d{1,2})\/(\d{4}))(?:[T\s]+(.+))?$/);
+	if (!match) {
+		return null;
+	}
+	const [year, month, day] = match[1] ? [match[1], match[2], match[3]] : [match[6], match[4], match[5]];
+	return {
+		date: `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`,
+		minutes: match[7] ? parseCsvTime(match[7]) : null
+	};
+}
+
+// HH:MM[:SS] with an optional AM/PM, as minutes since midnight
+function parseCsvTime(value: string): number | null {
+	const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?/);
+	if (!match) {
+		return null;
+	}
+	const hours = +match[1] % (match[3] ? 12 : 24) + (match[3]?.toUpperCase() === 'PM' ? 12 : 0);
+	return hours * 60 + +match[2];
+}
+
+// A utility CSV export: the header row is the first with a date and a usage column (Green Button
+// CSVs start with account details). Units come from a units column or the usage header, e.g. "Usage (kWh)".
+export function parseGreenButtonCsv(contents: string, therms_per_ccf: number, service?: ServiceType): ParsedFile {
+	const lines = contents.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim()).map(splitCsvLine);
+	const columnOf = (header: string[], test: (name: string) => boolean) => header.findIndex(name => test(name.toLowerCase()));
+	// A "Start Date" or "Date" column, or failing that a start timestamp
+	const dateColumn = (header: string[]) => [/date/, /start/]
+		.map(pattern => columnOf(header, name => pattern.test(name) && !/end/.test(name)))
+		.find(index => index >= 0) ?? -1;
+	const usageColumn = (header: string[]) => columnOf(header, name => /usage|consumption|quantity|^value/.test(name));
+	const header_index = lines.findIndex(fields => dateColumn(fields) >= 0 && usageColumn(fields) >= 0);
+	if (header_index < 0) {
+		throw new Error('No header row with a date and a usage column found in the Green Button CSV');
+	}
+
+	const header = lines[header_index];
+	const date_column = dateColumn(header);
+	const time_column = columnOf(header, name => /^(start )?time$/.test(name));
+	const usage_column = usageColumn(header);
+	const unit_column = columnOf(header, name => /^(units?|uom|unit of measure)$/.test(name));
+	const type_column = columnOf(header, name => /^(type|service)$/.test(name));
+	// "Usage (kWh)", or usage_kwh as in the server's CSV export
+	const header_unit = header[usage_column].match(/\(([^)]+)\)|^usage_(\w+)$/i)?.slice(1).find(Boolean);
+
+	const result: ParsedFile = { readings: [], rejected: 0 };
+	for (const fields of lines.slice(header_index + 1)) {
+		const when = parseCsvDate(fields[date_column] ?? '');
+		const time = time_column >= 0 && time_column !== date_column ? parseCsvTime(fields[time_column] ?? '') : null;
+		const value = Number((fields[usage_column] ?? '').replace(/[,$]/g, ''));
+		const type = type_column >= 0 ? (fields[type_column] ?? '').toLowerCase() : '';
+		const type_service = service ?? (type.includes('gas') ? 'GAS' : type.includes('electric') ? 'ELECTRIC' : undefined);
+		// Without a unit anywhere, a known service is read in the history's own unit
+		const unit = (unit_column >= 0 ? fields[unit_column] : undefined) || header_unit || (type_service === 'GAS' ? 'CCF' : type_service ? 'kWh' : '');
+		const converted = convertUsage(value, unit, therms_per_ccf);
+		const row_service = type_service ?? converted?.service;
+		if (!when || fields[usage_column] === '' || !Number.isFinite(value) || !converted || converted.service !== row_service) {
+			result.rejected += 1;
+			continue;
+		}
+		result.readings.push({ service: row_service, date: when.date, start: time ?? when.minutes ?? 0, duration: null, usage: converted.usage });
+	}
+	return result;
+}
+
+// Daily totals of the local days the (de-duplicated) readings cover completely. ESPI readings
+// carry their durations; timed CSV rows must fill the day at the file's median spacing, and
+// daily CSV rows (one per date) always count. A 25-hour DST day only needs 24 hours.
+function completeDays(readings: ImportReading[], csv: boolean): Map<string, number> {
+	const by_date = new Map<string, ImportReading[]>();
+	for (const reading of readings) {
+		by_date.set(reading.date, [...(by_date.get(reading.date) ?? []), reading]);
+	}
+
+	const spacings = [...by_date.values()].flatMap(day => {
+		const minutes = day.map(reading => reading.start).sort((a, b) => a - b);
+		return minutes.slice(1).map((minute, index) => minute - minutes[index]);
+	}).sort((a, b) => a - b);
+	const spacing = spacings[Math.floor(spacings.length / 2)];
+	const days = new Map<string, number>();
+
+	for (const [date, day] of by_date) {
+		const next = parseIsoDate(date);
+		next.setDate(next.getDate() + 1);
+		const length = Math.min(86400, (next.getTime() - parseIsoDate(date).getTime()) / 1000);
+		const covered = !csv ? day.reduce((sum, reading) => sum + (reading.duration ?? 0), 0)
+			: spacing ? day.length * spacing * 60
+			: length;
+		if (covered >= length) {
+			days.set(date, round(day.reduce((sum, reading) => sum + reading.usage, 0)));
+		}
+	}
+	return days;
+}
+
+// Import one file into the history of each service it holds. Readings repeated in the file
+// (overlapping blocks) count once.
+export function importGreenButton(duke: Duke, file: string, service?: ServiceType): ImportResult[] {
+	const contents = fs.readFileSync(file, 'utf8');
+	const xml = path.extname(file).toLowerCase() === '.xml' || contents.trimStart().startsWith('<');
+	const parsed = xml ? parseEspi(contents, duke.therms_per_ccf, service) : parseGreenButtonCsv(contents, duke.therms_per_ccf, service);
+	console.log(chalk.blue(`Read ${parsed.readings.length} readings from ${file}${parsed.rejected ? ` (${parsed.rejected} estimated or unreadable left out)` : ''}`));
+
+	const results: ImportResult[] = [];
+	for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+		const unique = new Map(parsed.readings
+			.filter(reading => reading.service === serviceType)
+			.map(reading => [`${reading.date} ${reading.start}`, reading]));
+		if (unique.size === 0) {
+			continue;
+		}
+
+		const all_days = new Set([...unique.values()].map(reading => reading.date));
+		const days = completeDays([...unique.values()], !xml);
+		const field = serviceType === 'GAS' ? 'usage_ccf' : 'usage_kwh';
+		const existing = new Map(duke.loadHistoricalData(serviceType).map(record => [toStorageDate(record.date), record]));
+
+		const timestamp = new Date().toISOString();
+		const usage_data = [...days.entries()]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.filter(([date, usage]) => existing.get(date)?.[field] !== usage)
+			.map(([date, usage]) => {
+				const day = parseIsoDate(date);
+				const full_date = formatRequestDate(day);
+				const date_label = `${day.getMonth() + 1}/${day.getDate().toString().padStart(2, '0')}`;
+				return serviceType === 'GAS'
+					// Keep Duke's daily average when a day is corrected
+					? { date: date_label, full_date, usage_ccf: usage, average_ccf: existing.get(date)?.average_ccf ?? null, unit: 'CCF', timestamp }
+					: { date: date_label, full_date, date_label, usage_kwh: usage, unit: 'kWh', timestamp };
+			});
+
+		const before = { ...duke.stored_counts[serviceType] };
+		const pruned = duke.storeUsageData(usage_data, serviceType);
+		if (usage_data.length > 0) {
+			duke.exportForHomeAssistant(serviceType);
+		}
+
+		results.push({
+			service: serviceType,
+			file,
+			days: all_days.size,
+			added: duke.stored_counts[serviceType].added - before.added,
+			updated: duke.stored_counts[serviceType].updated - before.updated,
+			skipped: all_days.size - usage_data.length,
+			rejected_readings: parsed.rejected,
+			pruned
+		});
+	}
+
+	if (results.length === 0) {
+		throw new Error(`No usable gas or electric readings in ${file}`);
+	}
+	return results;
+}
@@ -1,6 +1,18 @@
 import { Duke } from "./duke.ts";
+import { createAccountClients, fetchAccounts, firstErrorKind } from "./accounts.ts";
+import { replayRecordings } from "./replay.ts";
+import { backfill } from "./backfill.ts";
+import { migrateJsonHistory } from "./migrate.ts";
+import { importGreenButton, type ImportResult } from "./greenbutton.ts";
+import { parseIsoDate, toIsoDate } from "./dates.ts";
+import { Scheduler, acquireRunLock, releaseRunLock, schedulerOptionsFromEnv } from "./scheduler.ts";
+import { EXIT_CODES } from "./errors.ts";
+import { loadCollectorConfigOrExit } from "./config.ts";
+import type { Config } from "../../shared/config.ts";
+import path from "path";
 import fs from "fs";
 import chalk from "chalk";
+import { parseArgs } from "util";
 
 async function update_sensor(data: any) {
     // This function can be used if you want to do additional processing
@@ -8,9 +20,202 @@ async function update_sensor(data: any) {
     console.log(chalk.blue("Data processing completed by Duke class"));
 }
 
+// Offline replay: run recorded GetEnergyUsage responses through the store/export pipeline
+async function replay(dir: string, config: Config) {
+    console.log(chalk.green(`Replaying recorded Duke Energy responses from ${dir}...`));
+
+    const duke = new Duke({ offline: true, config });
+    const results = replayRecordings(duke, dir);
+    await duke.closeOutputs();
+
+    console.log(chalk.blue("=== Replay Summary ==="));
+    if (results.length === 0) {
+        console.log(chalk.red(`No recordings found under ${dir}/gas or ${dir}/electric`));
+        process.exit(1);
+    }
+
+    for (const result of results) {
+        if (result.error) {
+            console.log(chalk.red(`${result.service} ${result.file}: ❌ ${result.error}`));
+        } else {
+            console.log(chalk.green(`${result.service} ${result.file}: ✅ ${result.records} records`));
+        }
+    }
+
+    process.exit(results.some(result => result.error) ? 1 : 0);
+}
+
+// Historical backfill: request [from, to] in endpoint-sized chunks and merge into the history files
+async function runBackfill(from: string, to: string | undefined, delay: string | undefined, config: Config) {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    // Without --to the end is left to backfill(), which resumes a checkpoint's end or uses yesterday
+    const options = {
+        from: parseIsoDate(from),
+        to: to ? parseIsoDate(to) : null,
+        delay_ms: (delay ? parseFloat(delay) : 5) * 1000
+    };
+
+    if (options.to && options.to > yesterday) {
+        options.to = parseIsoDate(toIsoDate(yesterday));
+    }
+    if (options.from > (options.to ?? yesterday) || isNaN(options.delay_ms) || options.delay_ms < 0) {
+        console.log(chalk.red(`Invalid backfill range ${from} to ${toIsoDate(options.to ?? yesterday)} or delay ${delay}`));
+        process.exit(1);
+    }
+
+    // Backfill writes the same history and checkpoint files as a collection run, so it takes the same lock
+    const lock_file = schedulerOptionsFromEnv(config.data_dir).lock_file;
+    if (!acquireRunLock(lock_file)) {
+        console.log(chalk.red(`Another collector is running (${lock_file}); stop it or wait for its run to finish, then start the backfill again`));
+        process.exit(1);
+    }
+
+    console.log(chalk.green(`Starting Duke Energy backfill from ${from} to ${options.to ? toIsoDate(options.to) : 'yesterday'}...`));
+
+    const dukes = createAccountClients(config);
+    let failed = false;
+    try {
+        for (const duke of dukes) {
+            const results = await backfill(duke, options);
+            await duke.closeOutputs();
+
+            console.log(chalk.blue(`=== Backfill Summary${dukes.length > 1 ? ` (${duke.account.label})` : ''} ===`));
+            for (const result of results) {
+                const line = `${result.service}: ${result.completed}/${result.chunks} chunks fetched, ${result.skipped} already done, ${result.failed} failed (${result.records} records)`;
+                console.log(result.failed > 0 ? chalk.red(line) : chalk.green(line));
+            }
+            failed = failed || results.some(result => result.failed > 0);
+        }
+    } finally {
+        releaseRunLock(lock_file);
+    }
+
+    process.exit(failed ? 1 : 0);
+}
+
+// One-time migration of the JSON history files into the SQLite store
+function migrateStorage(config: Config) {
+    console.log(chalk.green("Migrating JSON history into SQLite..."));
+
+    const dukes = createAccountClients(config, { offline: true, storage_backend: 'sqlite' });
+    for (const duke of dukes) {
+        const results = migrateJsonHistory(duke);
+        duke.store.close();
+
+        console.log(chalk.blue(`=== Migration Summary${dukes.length > 1 ? ` (${duke.account.label})` : ''} ===`));
+        for (const result of results) {
+            console.log(chalk.green(`${result.service}: ${result.read} records (${result.added} added, ${result.updated} updated, ${result.repaired} year repairs)`));
+        }
+    }
+    console.log(chalk.blue("Set STORAGE_BACKEND=sqlite for the collector and server to use the database."));
+    process.exit(0);
+}
+
+// Offline import of Green Button downloads into one account's history (the default account unless --account)
+async function runImport(files: string[], service: string | undefined, label: string | undefined, config: Config) {
+    if (service !== undefined && !['gas', 'electric'].includes(service)) {
+        console.log(chalk.red(`Invalid --service ${service}, expected gas or electric`));
+        process.exit(1);
+    }
+
+    const dukes = createAccountClients(config, { offline: true });
+    const duke = label === undefined ? dukes.find(duke => duke.account.default) ?? dukes[0] : dukes.find(duke => duke.account.label === label);
+    if (!duke) {
+        console.log(chalk.red(`Unknown account ${label}; configured accounts: ${dukes.map(duke => duke.account.label).join(', ')}`));
+        process.exit(1);
+    }
+
+    const results: ImportResult[] = [];
+    let failed = false;
+    for (const file of files) {
+        console.log(chalk.blue(`--- Importing ${file} ---`));
+        try {
+            results.push(...importGreenButton(duke, file, service?.toUpperCase() as 'GAS' | 'ELECTRIC' | undefined));
+        } catch (error) {
+            failed = true;
+            console.error(chalk.red(`Failed to import ${file}:`), error);
+        }
+    }
+    await duke.closeOutputs();
+
+    console.log(chalk.blue(`=== Import Summary${dukes.length > 1 ? ` (${duke.account.label})` : ''} ===`));
+    for (const result of results) {
+        const line = `${result.service} ${result.file}: ${result.days} days (${result.added} added, ${result.updated} updated, ${result.skipped} skipped)` +
+            (result.rejected_readings ? `, ${result.rejected_readings} estimated or unreadable readings left out` : '');
+        console.log(chalk.green(line));
+        if (result.pruned > 0) {
+            console.log(chalk.yellow(`${result.service}: ${result.pruned} records older than the ${duke.history_retention_days}-day history retention were removed; raise HISTORY_RETENTION_DAYS (or set 0) and import again to keep them`));
+        }
+    }
+
+    process.exit(failed ? 1 : 0);
+}
+
+// Daemon mode: stay running and collect on SCHEDULE_CRON until SIGTERM/SIGINT
+async function runDaemon(dukes: Duke[], data_dir: string, cron: string | undefined) {
+    const options = schedulerOptionsFromEnv(data_dir);
+    const scheduler = new Scheduler(dukes, cron ? { ...options, cron } : options);
+
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.on(signal, async () => {
+            if (scheduler.stopping) {
+                // A second signal doesn't wait for the run, but still doesn't leave Chromium behind
+                console.log(chalk.red(`Received ${signal} again, exiting now`));
+                await Promise.all(dukes.map(duke => duke.closeBrowser()));
+                releaseRunLock(options.lock_file);
+                process.exit(1);
+            }
+            await scheduler.stop(signal);
+        });
+    }
+
+    await scheduler.start();
+    console.log(chalk.green("Scheduler stopped"));
+    process.exit(0);
+}
+
 async function main() {
+    const { values } = parseArgs({
+        options: {
+            'replay': { type: 'string' },
+            'data-dir': { type: 'string' },
+            'from': { type: 'string' },
+            'to': { type: 'string' },
+            'delay': { type: 'string' },
+            'migrate-storage': { type: 'boolean' },
+            'daemon': { type: 'boolean' },
+            'schedule': { type: 'string' },
+            'config': { type: 'string' },
+            'import': { type: 'string', multiple: true },
+            'service': { type: 'string' },
+            'account': { type: 'string' }
+        }
+    });
+
+    // config.json (or --config) with .env overrides; a problem stops every mode before it starts
+    const config = loadCollectorConfigOrExit({ file: values.config, data_dir: values['data-dir'] });
+
+    if (values['migrate-storage']) {
+        return migrateStorage(config);
+    }
+
+    if (values.import) {
+        return runImport(values.import, values.service, values.account, config);
+    }
+
+    if (values.replay) {
+        const data_dir = values['data-dir'] || path.join(config.data_dir, 'replay');
+        return replay(values.replay, loadCollectorConfigOrExit({ file: values.config, data_dir }));
+    }
+
+    if (values.from) {
+        return runBackfill(values.from, values.to, values.delay, config);
+    }
+
     console.log(chalk.green("Starting Duke Energy Data Collection..."));
-    
+
     // Create database store function (optional)
     const db_store = async (raw_data: any) => {
         // Optional: add any additional data processing here
@@ -18,11 +223,25 @@ async function main() {
         console.log(chalk.blue(`Database store called with ${raw_data.length} records`));
     };
 
-    // Create Duke instance and run once
-    const duke = new Duke({ db_store });
-    
-    // For daily scheduled execution, use fetch_once instead of monitor
-    await duke.fetch_once();
+    // One client per account in accounts.json (or the single configured account); lock and schedule state stay in the data directory
+    const dukes = createAccountClients(config, { db_store });
+
+    if (values.daemon || values.schedule) {
+        return runDaemon(dukes, config.data_dir, values.schedule);
+    }
+
+    // Run once, e.g. from Task Scheduler or cron; don't overlap a daemon's or another run
+    const lock_file = schedulerOptionsFromEnv(config.data_dir).lock_file;
+    if (!acquireRunLock(lock_file)) {
+        console.log(chalk.yellow(`Another collector is running (${lock_file}), skipping this run`));
+        process.exit(0);
+    }
+
+    const error_kind = firstErrorKind(await fetchAccounts(dukes).finally(() => releaseRunLock(lock_file)));
+    if (error_kind) {
+        console.log(chalk.red(`Exiting with code ${EXIT_CODES[error_kind]} (${error_kind})`));
+    }
+    process.exit(error_kind ? EXIT_CODES[error_kind] : 0);
 }
 
 // Handle uncaught errors
@@ -40,4 +259,4 @@ process.on('uncaughtException', (error) => {
 main().catch((error) => {
     console.error(chalk.red('Error in main function:'), error);
     process.exit(1);
-});
\ No newline at end of file
+});
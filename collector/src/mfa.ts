@@ -0,0 +1,161 @@
+import chalk from "chalk";
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { MfaRequiredError } from "./errors.ts";
+
+// Verification codes for Duke's multi-factor sign-in step. A code comes from a TOTP secret
+// (generated immediately), or is waited for: written to a watched file, or POSTed to a small
+// HTTP endpoint on localhost. Waiting gives up after MFA_TIMEOUT_SECONDS.
+
+export type MfaOptions = {
+	// Base32 TOTP secret from the authenticator setup (RFC 6238, SHA-1, 6 digits, 30 s)
+	totp_secret?: string;
+	// File polled for a code; it is deleted once read
+	code_file?: string;
+	// Local endpoint accepting `POST /mfa` with the code as the body, JSON { "code": ... } or form code=...
+	http_port?: number;
+	http_host: string;
+	timeout_ms: number;
+};
+
+const POLL_MS = 1000;
+const CODE_PATTERN = /^\d{4,10}$/;
+
+export function mfaOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MfaOptions {
+	return {
+		totp_secret: env.MFA_TOTP_SECRET || undefined,
+		code_file: env.MFA_CODE_FILE || undefined,
+		http_port: env.MFA_HTTP_PORT ? parseInt(env.MFA_HTTP_PORT) : undefined,
+		http_host: env.MFA_HTTP_HOST || '127.0.0.1',
+		timeout_ms: parseInt(env.MFA_TIMEOUT_SECONDS || '300') * 1000
+	};
+}
+
+function base32Decode(secret: string): Buffer {
+	const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+	const clean = secret.toUpperCase().replace(/[\s=-]/g, '');
+	let bits = '';
+	for (const char of clean) {
+		const value = alphabet.indexOf(char);
+		if (value < 0) {
+			throw new Error(`Invalid base32 character "${char}" in MFA_TOTP_SECRET`);
+		}
+		bits += value.toString(2).padStart(5, '0');
+	}
+
+	const bytes = [];
+	for (let i = 0; i + 8 <= bits.length; i += 8) {
+		bytes.push(parseInt(bits.slice(i, i + 8), 2));
+	}
+	return Buffer.from(bytes);
+}
+
+// RFC 6238 time-based one-time password
+export function totp(secret: string, time = Date.now(), step_seconds = 30, digits = 6): string {
+	const counter = Buffer.alloc(8);
+	counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / step_seconds)));
+
+	const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+	const offset = hmac[hmac.length - 1] & 0x0f;
+	const value = (hmac.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, digits);
+	return value.toString().padStart(digits, '0');
+}
+
+function parseCodeBody(body: string): string {
+	const text = body.trim();
+	if (text.startsWith('{')) {
+		try {
+			return String(JSON.parse(text).code ?? '').trim();
+		} catch {
+			return '';
+		}
+	}
+	return (new URLSearchParams(text).get('code') ?? text).trim();
+}
+
+function waitForCodeFile(filename: string, signal: AbortSignal): Promise<string> {
+	return new Promise(resolve => {
+		const timer = setInterval(() => {
+			if (!fs.existsSync(filename)) {
+				return;
+			}
+			const code = fs.readFileSync(filename, 'utf8').trim();
+			fs.unlinkSync(filename);
+			if (CODE_PATTERN.test(code)) {
+				clearInterval(timer);
+				resolve(code);
+			} else {
+				console.log(chalk.red(`Ignoring "${code}" in ${filename}, expected a numeric code`));
+			}
+		}, POLL_MS);
+		signal.addEventListener('abort', () => clearInterval(timer));
+	});
+}
+
+function waitForCodeRequest(port: number, host: string, signal: AbortSignal): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const server = http.createServer((req, res) => {
+			if (req.method !== 'POST' || req.url !== '/mfa') {
+				res.writeHead(404, { 'Content-Type': 'application/json' });
+				return res.end(JSON.stringify({ error: 'POST the code to /mfa' }));
+			}
+
+			let body = '';
+			req.on('data', chunk => body += chunk);
+			req.on('end', () => {
+				const code = parseCodeBody(body);
+				if (!CODE_PATTERN.test(code)) {
+					res.writeHead(400, { 'Content-Type': 'application/json' });
+					return res.end(JSON.stringify({ error: 'Expected a numeric code' }));
+				}
+				res.writeHead(202, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ status: 'accepted' }));
+				resolve(code);
+			});
+		});
+
+		server.once('error', reject);
+		server.listen(port, host);
+		signal.addEventListener('abort', () => server.close());
+	});
+}
+
+// A verification code from the first configured source. Throws MfaRequiredError when no
+// source is configured or none delivers a code in time.
+export async function getMfaCode(options: MfaOptions): Promise<string> {
+	if (options.totp_secret) {
+		console.log(chalk.blue("Generating verification code from MFA_TOTP_SECRET"));
+		return totp(options.totp_secret);
+	}
+
+	if (!options.code_file && !options.http_port) {
+		throw new MfaRequiredError("MFA required: Duke asked for a verification code, but none of MFA_TOTP_SECRET, MFA_CODE_FILE or MFA_HTTP_PORT is set");
+	}
+
+	const controller = new AbortController();
+	const sources: Promise<string>[] = [];
+	if (options.code_file) {
+		// A code left over from an earlier challenge would be rejected
+		if (fs.existsSync(options.code_file)) {
+			fs.unlinkSync(options.code_file);
+		}
+		console.log(chalk.yellow(`Waiting for a verification code in ${options.code_file}`));
+		sources.push(waitForCodeFile(options.code_file, controller.signal));
+	}
+	if (options.http_port) {
+		console.log(chalk.yellow(`Waiting for a verification code: curl -d 123456 http://${options.http_host}:${options.http_port}/mfa`));
+		sources.push(waitForCodeRequest(options.http_port, options.http_host, controller.signal));
+	}
+
+	const timeout = new Promise<never>((_, reject) => {
+		const timer = setTimeout(() => reject(new MfaRequiredError(`MFA required: no verification code received within ${Math.round(options.timeout_ms / 1000)}s`)), options.timeout_ms);
+		controller.signal.addEventListener('abort', () => clearTimeout(timer));
+	});
+
+	try {
+		return await Promise.race([...sources, timeout]);
+	} finally {
+		controller.abort();
+	}
+}
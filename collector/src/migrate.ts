@@ -0,0 +1,37 @@
+import chalk from "chalk";
+import type { Duke } from "./duke.ts";
+import { repairMisfiledYears } from "./dates.ts";
+import { JsonUsageStore, type UsageStore } from "../../shared/storage.ts";
+
+export type MigrationResult = {
+	service: 'GAS' | 'ELECTRIC';
+	read: number;
+	repaired: number;
+	added: number;
+	updated: number;
+};
+
+// One-time copy of the duke-*-history.json files into another store (normally SQLite).
+// Upserts are keyed by service/meter/date, so running it again is harmless. The JSON
+// files are left in place as a backup.
+export function migrateJsonHistory(duke: Duke, target: UsageStore = duke.store): MigrationResult[] {
+	const source = new JsonUsageStore(duke.data_dir);
+	const results: MigrationResult[] = [];
+
+	for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+		const series = duke.series(serviceType);
+		const history_file = source.historyFile(series);
+		const { records, repaired } = repairMisfiledYears(source.load(series));
+
+		if (records.length === 0) {
+			console.log(chalk.yellow(`No ${serviceType.toLowerCase()} history to migrate in ${history_file}`));
+			continue;
+		}
+
+		const result = target.upsert(series, records);
+		console.log(chalk.green(`Migrated ${records.length} ${serviceType.toLowerCase()} records from ${history_file} (meter "${series.meter}")`));
+		results.push({ service: serviceType, read: records.length, repaired, added: result.added, updated: result.updated });
+	}
+
+	return results;
+}
@@ -0,0 +1,208 @@
+import chalk from "chalk";
+import fs from "fs";
+import http from "http";
+import path from "path";
+
+// Local stand-in for the Duke Energy sign-in page and the PlanRate/GetEnergyUsage endpoint.
+// Point the collector at it with DUKE_LOGIN_URL and DUKE_API_URL to exercise login() and the
+// request interception flow end to end without a network.
+const SESSION_COOKIE = 'mock_duke_session';
+const SIGN_IN_PATH = '/my-account/sign-in';
+const DASHBOARD_PATH = '/my-account/dashboard';
+const VERIFY_PATH = '/my-account/verify';
+const PENDING_COOKIE = 'mock_duke_mfa_pending';
+const USAGE_PATH = '/form/PlanRate/GetEnergyUsage';
+
+export type MockPortalOptions = {
+	port?: number;
+	host?: string;
+	fixtures_dir?: string;
+	// Which electric recording to serve; the collector falls back to XML when JSON fails
+	electric_format?: 'json' | 'xml';
+	// When set, sign-in only succeeds with these credentials
+	email?: string;
+	password?: string;
+	// When set, sign-in is followed by a verification-code step that only accepts this code
+	mfa_code?: string;
+};
+
+export type MockPortal = {
+	url: string;
+	login_url: string;
+	api_url: string;
+	close(): Promise<void>;
+};
+
+function signInPage(error?: string): string {
+	return `<!DOCTYPE html>
+<html>
+<head><title>Sign In | Duke Energy (mock)</title></head>
+<body>
+	${error ? `<p class="error">${error}</p>` : ''}
+	<form method="POST" action="${SIGN_IN_PATH}">
+		<input id="Split-Sign-In-signInUsername_tealeaf-unmask" name="username" type="email" />
+		<input id="Split-Sign-In-signInPassword" name="password" type="password" />
+		<button type="submit">Sign In</button>
+	</form>
+</body>
+</html>`;
+}
+
+function verifyPage(error?: string): string {
+	return `<!DOCTYPE html>
+<html>
+<head><title>Verify | Duke Energy (mock)</title></head>
+<body>
+	${error ? `<p class="error">${error}</p>` : ''}
+	<form method="POST" action="${VERIFY_PATH}">
+		<input id="verification-code" name="code" autocomplete="one-time-code" inputmode="numeric" />
+		<button type="submit">Verify</button>
+	</form>
+</body>
+</html>`;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		let body = '';
+		req.on('data', chunk => body += chunk);
+		req.on('end', () => resolve(body));
+		req.on('error', reject);
+	});
+}
+
+function hasCookie(req: http.IncomingMessage, name: string): boolean {
+	return (req.headers.cookie || '').split(';').some(cookie => cookie.trim().startsWith(`${name}=`));
+}
+
+function hasSession(req: http.IncomingMessage): boolean {
+	return hasCookie(req, SESSION_COOKIE);
+}
+
+export function startMockPortal(options: MockPortalOptions = {}): Promise<MockPortal> {
+	const port = options.port ?? 4010;
+	const host = options.host ?? '127.0.0.1';
+	const fixtures_dir = options.fixtures_dir ?? path.join(import.meta.dir, '..', 'fixtures');
+	const electric_format = options.electric_format ?? 'json';
+
+	const server = http.createServer(async (req, res) => {
+		const url = new URL(req.url || '/', `http://${req.headers.host}`);
+		console.log(chalk.gray(`[mock-portal] ${req.method} ${url.pathname}`));
+
+		try {
+			if (url.pathname === SIGN_IN_PATH && req.method === 'GET') {
+				res.writeHead(200, { 'Content-Type': 'text/html' });
+				return res.end(signInPage());
+			}
+
+			if (url.pathname === SIGN_IN_PATH && req.method === 'POST') {
+				const form = new URLSearchParams(await readBody(req));
+				const valid = (!options.email || form.get('username') === options.email)
+					&& (!options.password || form.get('password') === options.password);
+
+				if (!valid) {
+					res.writeHead(401, { 'Content-Type': 'text/html' });
+					return res.end(signInPage('Invalid email or password'));
+				}
+
+				if (options.mfa_code) {
+					res.writeHead(302, {
+						'Location': VERIFY_PATH,
+						'Set-Cookie': `${PENDING_COOKIE}=1; Path=/; HttpOnly`
+					});
+					return res.end();
+				}
+
+				res.writeHead(302, {
+					'Location': DASHBOARD_PATH,
+					'Set-Cookie': `${SESSION_COOKIE}=${Date.now()}; Path=/; HttpOnly`
+				});
+				return res.end();
+			}
+
+			if (url.pathname === VERIFY_PATH && req.method === 'GET') {
+				res.writeHead(200, { 'Content-Type': 'text/html' });
+				return res.end(verifyPage());
+			}
+
+			if (url.pathname === VERIFY_PATH && req.method === 'POST') {
+				const form = new URLSearchParams(await readBody(req));
+				if (!hasCookie(req, PENDING_COOKIE) || form.get('code') !== options.mfa_code) {
+					res.writeHead(401, { 'Content-Type': 'text/html' });
+					return res.end(verifyPage('Invalid verification code'));
+				}
+
+				res.writeHead(302, {
+					'Location': DASHBOARD_PATH,
+					'Set-Cookie': `${SESSION_COOKIE}=${Date.now()}; Path=/; HttpOnly`
+				});
+				return res.end();
+			}
+
+			if (url.pathname === DASHBOARD_PATH) {
+				// The collector loads this to check a stored session
+				if (!hasSession(req)) {
+					res.writeHead(302, { 'Location': SIGN_IN_PATH });
+					return res.end();
+				}
+				res.writeHead(200, { 'Content-Type': 'text/html' });
+				return res.end('<html><body><h1>My Account (mock)</h1></body></html>');
+			}
+
+			if (url.pathname === USAGE_PATH) {
+				if (!hasSession(req)) {
+					res.writeHead(401, { 'Content-Type': 'application/json' });
+					return res.end(JSON.stringify({ error: 'Not signed in' }));
+				}
+
+				const body = JSON.parse((await readBody(req)) || '{}');
+				const usage_request = JSON.parse(body.request || '{}');
+				const service = usage_request.ServiceType === 'GAS' ? 'gas' : 'electric';
+				const extension = service === 'electric' && electric_format === 'xml' ? 'xml' : 'json';
+				const fixture = path.join(fixtures_dir, service, `get-energy-usage.${extension}`);
+
+				if (!fs.existsSync(fixture)) {
+					res.writeHead(404, { 'Content-Type': 'application/json' });
+					return res.end(JSON.stringify({ error: `No recording for ${service}` }));
+				}
+
+				// The real endpoint's XML is read back through the browser's HTML parser, so serve it as HTML
+				res.writeHead(200, { 'Content-Type': extension === 'xml' ? 'text/html' : 'application/json' });
+				return res.end(fs.readFileSync(fixture, 'utf8'));
+			}
+
+			res.writeHead(404, { 'Content-Type': 'text/plain' });
+			res.end('Not found');
+		} catch (error) {
+			console.error(chalk.red('[mock-portal] Request failed:'), error);
+			res.writeHead(500, { 'Content-Type': 'text/plain' });
+			res.end('Mock portal error');
+		}
+	});
+
+	return new Promise((resolve, reject) => {
+		server.once('error', reject);
+		server.listen(port, host, () => {
+			const url = `http://${host}:${port}`;
+			resolve({
+				url,
+				login_url: `${url}${SIGN_IN_PATH}`,
+				api_url: `${url}${USAGE_PATH}`,
+				close: () => new Promise<void>(done => server.close(() => done()))
+			});
+		});
+	});
+}
+
+if (import.meta.main) {
+	const portal = await startMockPortal({
+		port: parseInt(process.env.MOCK_PORTAL_PORT || '4010'),
+		electric_format: process.env.MOCK_ELECTRIC_FORMAT === 'xml' ? 'xml' : 'json',
+		email: process.env.EMAIL,
+		password: process.env.PASSWORD,
+		mfa_code: process.env.MOCK_MFA_CODE
+	});
+	console.log(chalk.green(`Mock Duke portal running on ${portal.url}`));
+	console.log(chalk.blue(`   DUKE_LOGIN_URL=${portal.login_url}`));
+	console.log(chalk.blue(`   DUKE_API_URL=${portal.api_url}`));
+}
@@ -0,0 +1,150 @@
+import chalk from "chalk";
+import mqtt, { type MqttClient } from "mqtt";
+
+// Publishes each service's latest reading to an MQTT broker as a retained JSON state message,
+// together with Home Assistant MQTT discovery configs, so Home Assistant gets new data pushed
+// instead of polling the REST server.
+
+export type MqttOptions = {
+	url: string;
+	username?: string;
+	password?: string;
+	client_id?: string;
+	// State topics are <topic_prefix>/<service>/state
+	topic_prefix: string;
+	// Home Assistant's discovery prefix
+	discovery_prefix: string;
+	// Home Assistant device the sensors are grouped under
+	device_name?: string;
+};
+
+export type MqttReading = {
+	date: string;
+	usage: number;
+	unit: string;
+	usage_therms?: number;
+	cost_estimate: number | null;
+};
+
+// How long close() waits for queued messages before dropping the connection
+const CLOSE_TIMEOUT_MS = 10000;
+
+type SensorConfig = {
+	key: string;
+	name: string;
+	value_template: string;
+	unit_of_measurement?: string;
+	device_class?: string;
+	icon: string;
+};
+
+export function mqttOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MqttOptions | undefined {
+	if (!env.MQTT_URL) {
+		return undefined;
+	}
+	return {
+		url: env.MQTT_URL,
+		username: env.MQTT_USERNAME || undefined,
+		password: env.MQTT_PASSWORD || undefined,
+		client_id: env.MQTT_CLIENT_ID || undefined,
+		topic_prefix: (env.MQTT_TOPIC_PREFIX || 'duke_energy').replace(/\/+$/, ''),
+		discovery_prefix: (env.MQTT_DISCOVERY_PREFIX || 'homeassistant').replace(/\/+$/, '')
+	};
+}
+
+export class MqttPublisher {
+	options: MqttOptions;
+	client: MqttClient;
+	discovery_sent = new Set<string>();
+
+	constructor(options: MqttOptions) {
+		this.options = options;
+		// Messages published before the connection is up are queued and sent once it is
+		this.client = mqtt.connect(options.url, {
+			username: options.username,
+			password: options.password,
+			clientId: options.client_id,
+			reconnectPeriod: 5000
+		});
+		this.client.on('connect', () => console.log(chalk.green(`Connected to MQTT broker ${options.url}`)));
+		this.client.on('error', error => console.error(chalk.red("MQTT error:"), error.message));
+	}
+
+	stateTopic(serviceType: 'GAS' | 'ELECTRIC'): string {
+		return `${this.options.topic_prefix}/${serviceType.toLowerCase()}/state`;
+	}
+
+	private sensors(serviceType: 'GAS' | 'ELECTRIC', currency: string): SensorConfig[] {
+		const label = serviceType === 'GAS' ? 'Gas' : 'Electric';
+		const usage: SensorConfig[] = serviceType === 'GAS'
+			? [
+				{ key: 'usage', name: 'Gas Usage', value_template: '{{ value_json.usage }}', unit_of_measurement: 'CCF', device_class: 'gas', icon: 'mdi:fire' },
+				{ key: 'usage_therms', name: 'Gas Usage (Therms)', value_template: '{{ value_json.usage_therms }}', unit_of_measurement: 'therms', icon: 'mdi:fire' }
+			]
+			: [
+				{ key: 'usage', name: 'Electric Usage', value_template: '{{ value_json.usage }}', unit_of_measurement: 'kWh', device_class: 'energy', icon: 'mdi:lightning-bolt' }
+			];
+
+		return [
+			...usage,
+			{ key: 'cost', name: `${label} Daily Cost`, value_template: '{{ value_json.cost_estimate }}', unit_of_measurement: currency, device_class: 'monetary', icon: 'mdi:currency-usd' },
+			// Readings are MM/DD/YYYY; date sensors need YYYY-MM-DD
+			{ key: 'date', name: `${label} Date`, value_template: "{{ value_json.date.split('/')[2] ~ '-' ~ value_json.date.split('/')[0] ~ '-' ~ value_json.date.split('/')[1] }}", device_class: 'date', icon: 'mdi:calendar' }
+		];
+	}
+
+	// Retained discovery configs, sent once per service per run. No state_class: the value is
+	// one day's usage that resets daily and arrives a day late (see /<service>-statistics).
+	publishDiscovery(serviceType: 'GAS' | 'ELECTRIC', currency = 'USD'): void {
+		if (this.discovery_sent.has(serviceType)) {
+			return;
+		}
+
+		const node_id = this.options.topic_prefix.replace(/[^a-zA-Z0-9_-]/g, '_');
+		for (const sensor of this.sensors(serviceType, currency)) {
+			const object_id = `${node_id}_${serviceType.toLowerCase()}_${sensor.key}`;
+			const config = {
+				name: sensor.name,
+				unique_id: object_id,
+				object_id: object_id,
+				state_topic: this.stateTopic(serviceType),
+				value_template: sensor.value_template,
+				...(sensor.unit_of_measurement ? { unit_of_measurement: sensor.unit_of_measurement } : {}),
+				...(sensor.device_class ? { device_class: sensor.device_class } : {}),
+				icon: sensor.icon,
+				device: {
+					identifiers: [node_id],
+					name: this.options.device_name || 'Duke Energy',
+					manufacturer: 'Duke Energy',
+					model: 'Usage collector'
+				}
+			};
+			this.client.publish(`${this.options.discovery_prefix}/sensor/${node_id}/${object_id}/config`, JSON.stringify(config), { qos: 1, retain: true });
+		}
+
+		this.discovery_sent.add(serviceType);
+	}
+
+	publishReading(serviceType: 'GAS' | 'ELECTRIC', reading: MqttReading, currency = 'USD'): void {
+		this.publishDiscovery(serviceType, currency);
+		this.client.publish(this.stateTopic(serviceType), JSON.stringify(reading), { qos: 1, retain: true });
+		console.log(chalk.green(`Published ${serviceType.toLowerCase()} reading for ${reading.date} to ${this.stateTopic(serviceType)}`));
+	}
+
+	// Flush queued messages and disconnect; gives up after CLOSE_TIMEOUT_MS if the broker is unreachable
+	async close(): Promise<void> {
+		const flushed = (async () => {
+			// Ending before the first connect would drop the queue, so wait for it
+			if (!this.client.connected) {
+				await new Promise(resolve => this.client.once('connect', resolve));
+			}
+			await new Promise<void>(resolve => this.client.end(false, {}, () => resolve()));
+		})();
+		const timeout = new Promise<'timeout'>(resolve => setTimeout(() => resolve('timeout'), CLOSE_TIMEOUT_MS).unref());
+
+		if (await Promise.race([flushed, timeout]) === 'timeout') {
+			console.error(chalk.red(`MQTT broker ${this.options.url} unreachable, unsent messages were dropped`));
+			this.client.end(true);
+		}
+	}
+}
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig } from "../../shared/config.ts";
+import { Duke } from "./duke.ts";
+import { replayRecordings, type ReplayResult } from "./replay.ts";
+
+// Recorded dates are local calendar days; pin the zone the fixtures were recorded in
+process.env.TZ = 'America/New_York';
+
+const FIXTURES_DIR = path.resolve(import.meta.dir, '..', 'fixtures');
+
+let data_dir: string;
+let results: ReplayResult[];
+
+function history(service: 'gas' | 'electric'): any[] {
+	return JSON.parse(fs.readFileSync(path.join(data_dir, service, `duke-${service}-history.json`), 'utf8'));
+}
+
+// Replays the fixtures once into a scratch data directory; the tests check what it wrote
+beforeAll(() => {
+	data_dir = fs.mkdtempSync(path.join(os.tmpdir(), 'duke-replay-'));
+	// No config file or environment, so the defaults apply; keep history so the 2025 fixtures aren't pruned
+	const config = loadConfig({ env: { HISTORY_RETENTION_DAYS: '0' }, data_dir });
+	const duke = new Duke({ offline: true, config, mqtt_options: undefined });
+	results = replayRecordings(duke, FIXTURES_DIR);
+});
+
+afterAll(() => {
+	fs.rmSync(data_dir, { recursive: true, force: true });
+});
+
+describe('replayRecordings', () => {
+	test('replays every recording without errors', () => {
+		expect(results.map(result => [result.service, path.basename(result.file), result.records, result.error])).toEqual([
+			['GAS', 'get-energy-usage.json', 10, null],
+			['ELECTRIC', 'get-energy-usage.json', 7, null],
+			['ELECTRIC', 'get-energy-usage.xml', 3, null]
+		]);
+	});
+
+	test('stores gas readings on the days of the recorded window', () => {
+		const records = history('gas');
+		expect(records.map(record => record.date)).toEqual([
+			'09/05/2025', '09/06/2025', '09/07/2025', '09/08/2025', '09/09/2025',
+			'09/10/2025', '09/11/2025', '09/12/2025', '09/13/2025', '09/14/2025'
+		]);
+		expect(records.map(record => record.usage_ccf)).toEqual([1.2, 0.9, 1.1, 1.4, 0.8, 1, 1.3, 1.6, 1.1, 0.7]);
+		expect(records[0]).toMatchObject({ date_label: '9/05', usage_therms: 1.244, average_ccf: 1, unit: 'CCF' });
+	});
+
+	test('merges the JSON and XML electric recordings into one record per day', () => {
+		const records = history('electric');
+		expect(records.map(record => record.date)).toEqual([
+			'09/08/2025', '09/09/2025', '09/10/2025', '09/11/2025', '09/12/2025', '09/13/2025', '09/14/2025'
+		]);
+		expect(records.map(record => record.usage_kwh)).toEqual([24.312, 31.87, 28.004, 19.655, 22.707, 22.418, 19.758]);
+		expect(records[0]).toMatchObject({ date_label: '9/08', unit: 'kWh' });
+	});
+
+	test('exports the latest reading of each service', () => {
+		const gas = JSON.parse(fs.readFileSync(path.join(data_dir, 'gas', 'duke-gas-latest.json'), 'utf8'));
+		const electric = JSON.parse(fs.readFileSync(path.join(data_dir, 'electric', 'duke-electric-latest.json'), 'utf8'));
+		expect(gas).toMatchObject({ date: '09/14/2025', usage_ccf: 0.7 });
+		expect(electric).toMatchObject({ date: '09/14/2025', usage_kwh: 19.758 });
+	});
+});
@@ -0,0 +1,101 @@
+import chalk from "chalk";
+import fs from "fs";
+import path from "path";
+import type { Duke } from "./duke.ts";
+import { defaultTickWindow, parseIsoDate, type DateRange } from "./dates.ts";
+
+// Recorded GetEnergyUsage responses are stored one per file under <dir>/gas and <dir>/electric.
+// Files are replayed in name order, so prefix them with a date to replay a sequence of runs.
+const RECORDING_EXTENSIONS = ['.json', '.xml', '.html'];
+
+// JSON labels carry no year, so a recording's dates depend on the window it was requested with.
+// <name>.window.json next to <name>.json holds it as { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" }
+// (the request's StartDate and EndDate); without one, a YYYY-MM-DD prefix on the file name is
+// taken as the day it was recorded.
+const WINDOW_SUFFIX = '.window.json';
+
+export type ReplayResult = {
+	service: 'GAS' | 'ELECTRIC';
+	file: string;
+	records: number;
+	error: string | null;
+};
+
+export function listRecordings(dir: string, serviceType: 'GAS' | 'ELECTRIC'): string[] {
+	const service_dir = path.join(dir, serviceType.toLowerCase());
+	if (!fs.existsSync(service_dir)) {
+		return [];
+	}
+
+	return fs.readdirSync(service_dir)
+		.filter(file => RECORDING_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !file.toLowerCase().endsWith(WINDOW_SUFFIX))
+		.sort()
+		.map(file => path.join(service_dir, file));
+}
+
+// The window a recording was requested with, or null when neither a sidecar nor the file name
+// gives one
+export function recordingWindow(file: string): DateRange | null {
+	const sidecar = windowFile(file);
+	if (fs.existsSync(sidecar)) {
+		const window = JSON.parse(fs.readFileSync(sidecar, 'utf8'));
+		if (typeof window?.start !== 'string' || typeof window?.end !== 'string') {
+			throw new Error(`${sidecar} must have "start" and "end" dates (YYYY-MM-DD)`);
+		}
+		return { start: parseIsoDate(window.start), end: parseIsoDate(window.end) };
+	}
+
+	const recorded = path.basename(file).match(/^(\d{4}-\d{2}-\d{2})/)?.[1];
+	return recorded ? defaultTickWindow(parseIsoDate(recorded)) : null;
+}
+
+function windowFile(file: string): string {
+	return path.join(path.dirname(file), path.basename(file, path.extname(file)) + WINDOW_SUFFIX);
+}
+
+// Feed every recording through the same parse/store/export pipeline a live run uses.
+// A recording that throws or yields no records counts as a failure, since that is
+// what a changed Duke payload looks like.
+export function replayRecordings(duke: Duke, dir: string): ReplayResult[] {
+	const results: ReplayResult[] = [];
+
+	for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+		for (const file of listRecordings(dir, serviceType)) {
+			console.log(chalk.blue(`--- Replaying ${serviceType.toLowerCase()} recording ${file} ---`));
+			const api_response = fs.readFileSync(file, 'utf8');
+
+			try {
+				const window = recordingWindow(file);
+				if (!window) {
+					console.log(chalk.yellow(`No request window for ${file}; dates depend on today (add ${path.basename(windowFile(file))} to pin them)`));
+				}
+				const processed_data = serviceType === 'GAS'
+					? duke.handleGasResponse(api_response, window ?? defaultTickWindow())
+					: duke.handleElectricResponse(api_response, window ?? defaultTickWindow());
+				results.push({
+					service: serviceType,
+					file,
+					records: processed_data.length,
+					error: processed_data.length === 0 ? 'No usage records parsed from recording' : null
+				});
+			} catch (error) {
+				console.error(chalk.red(`Failed to replay ${file}:`), error);
+				results.push({
+					service: serviceType,
+					file,
+					records: 0,
+					error: error instanceof Error ? error.message : String(error)
+				});
+			}
+		}
+	}
+
+	// Publish each service's latest reading once, as a collection run would
+	for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+		if (results.some(result => result.service === serviceType && result.records > 0)) {
+			duke.publishLatest(serviceType);
+		}
+	}
+
+	return results;
+}
@@ -0,0 +1,225 @@
+import chalk from "chalk";
+import fs from "fs";
+import type { Duke } from "./duke.ts";
+import { fetchAccounts, firstErrorKind, type AccountResults } from "./accounts.ts";
+import { nextCronTime, parseCron, type CronSchedule } from "./cron.ts";
+import type { ErrorKind } from "./errors.ts";
+
+// Daemon mode: keeps one collector process running and calls fetch_once() on a cron schedule
+// instead of relying on an external scheduler. The next run time is kept in a state file so a
+// window missed while the process was down (or the machine asleep) is caught up on start.
+
+export type SchedulerOptions = {
+	cron: string;
+	// Each run starts up to this many minutes after its cron time, so requests don't land on the hour
+	jitter_minutes: number;
+	// Run immediately on start if the last scheduled run was missed
+	catch_up: boolean;
+	state_file: string;
+	lock_file: string;
+};
+
+type SchedulerState = {
+	next_run?: string;
+	last_run_started?: string;
+	last_run_finished?: string;
+	last_run_success?: boolean;
+	last_error_kind?: ErrorKind;
+};
+
+// Timers are re-armed at least this often, so a suspended machine or clock change is noticed promptly
+const MAX_TIMER_MS = 60 * 1000;
+
+export function schedulerOptionsFromEnv(data_dir: string, env: NodeJS.ProcessEnv = process.env): SchedulerOptions {
+	return {
+		cron: env.SCHEDULE_CRON || '0 6 * * *',
+		jitter_minutes: Math.max(0, parseFloat(env.SCHEDULE_JITTER_MINUTES || '0') || 0),
+		catch_up: env.SCHEDULE_CATCH_UP !== 'false',
+		state_file: `${data_dir}/scheduler-state.json`,
+		lock_file: `${data_dir}/collector.lock`
+	};
+}
+
+function processAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error: any) {
+		// EPERM: the process exists but belongs to another user
+		return error.code === 'EPERM';
+	}
+}
+
+// Take the cross-process run lock; false if another live collector holds it. A lock left by a
+// process that no longer exists is taken over.
+export function acquireRunLock(lock_file: string): boolean {
+	try {
+		fs.writeFileSync(lock_file, String(process.pid), { flag: 'wx' });
+		return true;
+	} catch (error: any) {
+		if (error.code !== 'EEXIST') {
+			throw error;
+		}
+	}
+
+	const pid = parseInt(fs.readFileSync(lock_file, 'utf8'));
+	// Our own pid can only be left over from an earlier container with the same pid
+	if (pid && pid !== process.pid && processAlive(pid)) {
+		return false;
+	}
+
+	console.log(chalk.yellow(`Removing stale lock ${lock_file} (pid ${pid || 'unknown'})`));
+	fs.unlinkSync(lock_file);
+	return acquireRunLock(lock_file);
+}
+
+export function releaseRunLock(lock_file: string): void {
+	if (fs.existsSync(lock_file) && parseInt(fs.readFileSync(lock_file, 'utf8')) === process.pid) {
+		fs.unlinkSync(lock_file);
+	}
+}
+
+export class Scheduler {
+	// One client per account, collected in turn on each run
+	dukes: Duke[];
+	options: SchedulerOptions;
+	schedule: CronSchedule;
+	state: SchedulerState = {};
+	next_run: Date | undefined;
+	// The run in progress; a run that comes due while this is set is skipped
+	running: Promise<AccountResults[] | undefined> | undefined;
+	timer: ReturnType<typeof setTimeout> | undefined;
+	stopping = false;
+	private stopped: (() => void) | undefined;
+
+	constructor(dukes: Duke[], options: SchedulerOptions) {
+		this.dukes = dukes;
+		this.options = options;
+		this.schedule = parseCron(options.cron);
+	}
+
+	private loadState(): SchedulerState {
+		if (!fs.existsSync(this.options.state_file)) {
+			return {};
+		}
+		try {
+			return JSON.parse(fs.readFileSync(this.options.state_file, 'utf8'));
+		} catch (error) {
+			console.error(chalk.red("Error loading scheduler state, starting fresh:"), error);
+			return {};
+		}
+	}
+
+	private saveState(): void {
+		fs.writeFileSync(this.options.state_file, JSON.stringify(this.state, null, 2));
+	}
+
+	// Next cron time after `after`, plus a random delay of up to jitter_minutes
+	private planNext(after: Date): void {
+		const next = nextCronTime(this.schedule, after);
+		next.setTime(next.getTime() + Math.random() * this.options.jitter_minutes * 60 * 1000);
+		this.next_run = next;
+		this.state.next_run = next.toISOString();
+		this.saveState();
+		console.log(chalk.blue(`Next collection at ${next.toLocaleString()}`));
+	}
+
+	// Runs until stop(); resolves once any run in progress has finished
+	async start(): Promise<void> {
+		const now = new Date();
+		this.state = this.loadState();
+		console.log(chalk.green(`Scheduler started with "${this.options.cron}" (jitter ${this.options.jitter_minutes} min, pid ${process.pid})`));
+
+		const previous = this.state.next_run;
+		const missed = previous && new Date(previous) <= now &&
+			(!this.state.last_run_started || this.state.last_run_started < previous);
+
+		this.planNext(now);
+		if (missed && this.options.catch_up) {
+			console.log(chalk.yellow(`Missed the run scheduled for ${new Date(previous).toLocaleString()}, catching up now`));
+			this.run();
+		}
+
+		const stopped = new Promise<void>(resolve => this.stopped = resolve);
+		this.tick();
+		await stopped;
+	}
+
+	private tick(): void {
+		if (this.stopping || !this.next_run) {
+			return;
+		}
+
+		const now = new Date();
+		if (now >= this.next_run) {
+			const due = this.next_run;
+			this.planNext(now);
+			if (this.running) {
+				console.log(chalk.yellow(`Skipping the run due at ${due.toLocaleString()}: the previous run is still in progress`));
+			} else {
+				this.run();
+			}
+		}
+
+		this.timer = setTimeout(() => this.tick(), Math.min(this.next_run.getTime() - Date.now(), MAX_TIMER_MS));
+	}
+
+	// Start a run unless one is already in progress; resolves with its results
+	run(): Promise<AccountResults[] | undefined> {
+		if (this.running) {
+			return this.running;
+		}
+
+		this.running = (async () => {
+			if (!acquireRunLock(this.options.lock_file)) {
+				console.log(chalk.yellow(`Another collector holds ${this.options.lock_file}, skipping this run`));
+				return undefined;
+			}
+
+			this.state.last_run_started = new Date().toISOString();
+			this.saveState();
+			try {
+				const runs = await fetchAccounts(this.dukes);
+				this.state.last_run_success = runs.every(run => run.results.success);
+				this.state.last_error_kind = firstErrorKind(runs);
+				if (runs.some(run => run.results.error_kind === 'credentials')) {
+					console.log(chalk.red("Sign-in was rejected; fix EMAIL/PASSWORD before the next run to avoid locking the account"));
+				}
+				return runs;
+			} catch (error) {
+				this.state.last_run_success = false;
+				this.state.last_error_kind = 'unknown';
+				console.error(chalk.red("Scheduled run failed:"), error);
+				return undefined;
+			} finally {
+				this.state.last_run_finished = new Date().toISOString();
+				this.saveState();
+				releaseRunLock(this.options.lock_file);
+			}
+		})().finally(() => this.running = undefined);
+
+		return this.running;
+	}
+
+	// Stop scheduling new runs, wait for the current one (which closes the browser) and close the stores
+	async stop(signal = 'stop'): Promise<void> {
+		if (this.stopping) {
+			return;
+		}
+		this.stopping = true;
+		clearTimeout(this.timer);
+
+		if (this.running) {
+			console.log(chalk.yellow(`Received ${signal}, waiting for the current run to finish...`));
+			await this.running;
+		} else {
+			console.log(chalk.yellow(`Received ${signal}, shutting down`));
+		}
+
+		for (const duke of this.dukes) {
+			await duke.closeOutputs();
+			duke.store.close();
+		}
+		this.stopped?.();
+	}
+}
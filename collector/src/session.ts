@@ -0,0 +1,99 @@
+import crypto from "crypto";
+import fs from "fs";
+import type { CookieParam } from "puppeteer";
+
+// Signed-in Duke cookies kept between runs, so most runs skip the sign-in form. The file is
+// encrypted with AES-256-GCM under a key derived from SESSION_KEY (or the account password),
+// and is only reused for the account it was created for.
+
+export type StoredSession = {
+	email: string;
+	cookies: CookieParam[];
+	created_at: string;
+	last_used_at: string;
+	// Runs that reused this session instead of signing in
+	reuse_count: number;
+};
+
+// Reported in the run summary
+export type SessionStatus = {
+	reused: boolean;
+	age_minutes: number;
+	reuse_count: number;
+};
+
+type EncryptedFile = {
+	version: 1;
+	salt: string;
+	iv: string;
+	tag: string;
+	data: string;
+};
+
+function deriveKey(secret: string, salt: Buffer): Buffer {
+	return crypto.scryptSync(secret, salt, 32);
+}
+
+export function encryptSession(session: StoredSession, secret: string): string {
+	const salt = crypto.randomBytes(16);
+	const iv = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret, salt), iv);
+	const data = Buffer.concat([cipher.update(JSON.stringify(session), 'utf8'), cipher.final()]);
+
+	const file: EncryptedFile = {
+		version: 1,
+		salt: salt.toString('base64'),
+		iv: iv.toString('base64'),
+		tag: cipher.getAuthTag().toString('base64'),
+		data: data.toString('base64')
+	};
+	return JSON.stringify(file, null, 2);
+}
+
+// Throws if the file was written with a different secret or has been tampered with
+export function decryptSession(contents: string, secret: string): StoredSession {
+	const file: EncryptedFile = JSON.parse(contents);
+	if (file.version !== 1) {
+		throw new Error(`Unsupported session file version ${file.version}`);
+	}
+
+	const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(secret, Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+	decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+	const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+	return JSON.parse(data.toString('utf8'));
+}
+
+export function loadSession(filename: string, secret: string): StoredSession | undefined {
+	if (!fs.existsSync(filename)) {
+		return undefined;
+	}
+	return decryptSession(fs.readFileSync(filename, 'utf8'), secret);
+}
+
+export function saveSession(filename: string, session: StoredSession, secret: string): void {
+	fs.writeFileSync(filename, encryptSession(session, secret), { mode: 0o600 });
+}
+
+export function clearSession(filename: string): void {
+	if (fs.existsSync(filename)) {
+		fs.unlinkSync(filename);
+	}
+}
+
+export function sessionStatus(session: StoredSession, reused: boolean, now = new Date()): SessionStatus {
+	return {
+		reused,
+		age_minutes: Math.round((now.getTime() - new Date(session.created_at).getTime()) / 60000),
+		reuse_count: session.reuse_count
+	};
+}
+
+export function formatSessionAge(minutes: number): string {
+	if (minutes < 60) {
+		return `${minutes}m`;
+	}
+	if (minutes < 48 * 60) {
+		return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+	}
+	return `${Math.floor(minutes / (24 * 60))}d ${Math.floor(minutes / 60) % 24}h`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { TariffEngine, totalCosts, type Tariff } from "../../shared/tariff.ts";
+
+const TARIFF: Tariff = {
+	GAS: [{ name: 'Residential gas', effective_from: '2025-01-01', unit: 'ccf', customer_charge: 30, blocks: [{ rate: 1 }] }]
+};
+
+function records(dates: string[]): any[] {
+	return dates.map(date => ({ date, usage_ccf: 1 }));
+}
+
+describe('TariffEngine.priceDays', () => {
+	test('spreads the customer charge evenly over a month with every reading', () => {
+		const days = Array.from({ length: 30 }, (_, index) => `09/${(index + 1).toString().padStart(2, '0')}/2025`);
+		const costs = new TariffEngine(TARIFF).priceDays('GAS', records(days));
+		expect(costs.every(cost => cost.customer_charge === 1)).toBe(true);
+		expect(totalCosts(costs).customer_charge).toBe(30);
+	});
+
+	test('charges days without readings to the next reading of the same month', () => {
+		const costs = new TariffEngine(TARIFF).priceDays('GAS', records(['09/03/2025', '09/04/2025', '09/10/2025', '09/30/2025']));
+		// 09/01-09/03, 09/04, 09/05-09/10 and 09/11-09/30
+		expect(costs.map(cost => cost.customer_charge)).toEqual([3, 1, 6, 20]);
+		expect(totalCosts(costs).customer_charge).toBe(30);
+	});
+
+	test('leaves the rest of the month unbilled until its readings arrive', () => {
+		const costs = new TariffEngine(TARIFF).priceDays('GAS', records(['09/29/2025', '10/02/2025']));
+		expect(costs.map(cost => cost.customer_charge)).toEqual([29, parseFloat((2 * 30 / 31).toFixed(4))]);
+	});
+});
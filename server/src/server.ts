@@ -2,16 +2,104 @@ import fastify from "fastify";
 import fs from "fs";
 import chalk from "chalk";
 import path from "path";
+import { Readable } from "stream";
+import { createUsageStore, JsonUsageStore, toStorageDate, type SeriesKey, type ServiceType, type UsageStore } from "../../shared/storage.ts";
+import { TariffEngine, groupIntervalsByDate, type DayCost } from "../../shared/tariff.ts";
+import { AGGREGATE_PERIODS, aggregateUsage, type AggregatePeriod } from "../../shared/aggregate.ts";
+import { STATISTIC_PERIODS, buildStatistics, type StatisticPeriod } from "../../shared/statistics.ts";
+import { accountDataDir, defaultAccount, loadAccounts, meterFor, type Account } from "../../shared/accounts.ts";
+import { ConfigError, loadConfig, type Config } from "../../shared/config.ts";
+import { collectionStatus, expectedNextRun, parseRuns, readRuns, runLogFile, type CollectionStatus } from "../../shared/runs.ts";
+import { findGaps } from "../../shared/gaps.ts";
+import { loadTemperatures, normalizeUsage } from "../../shared/weather.ts";
+import { ALERT_SEVERITIES, anomalyOptions, detectAnomalies, type UsageAlert } from "../../shared/anomalies.ts";
+import { EXPORT_RESOLUTIONS, csvExport, dailyReadings, espiExport, intervalReadings, type ExportFormat } from "../../shared/export.ts";
+import { METRICS_CONTENT_TYPE, RequestMetrics, formatMetrics, type MetricFamily } from "../../shared/metrics.ts";
+import { findApiKey, loadApiKeys, maskAccountNumber, presentedKey, type ApiKey, type ApiScope } from "../../shared/auth.ts";
+import { CompressedBodies, DataFileCache, MIN_COMPRESS_BYTES, cacheControl, compress, compressStream, encodedEtag, etagFor, negotiateEncoding, nextCollection, notModified, type SchedulerTimes } from "../../shared/cache.ts";
 
-// Configuration
-const PORT = parseInt(process.env.PORT || '3000');
-const HOST = process.env.HOST || '0.0.0.0';
-const DATA_DIRECTORY = process.env.DATA_DIRECTORY || '../data';
+// Configuration: config.json with environment overrides, validated the same way as the collector's.
+// Relative paths in environment variables point from the server directory.
+function loadServerConfig(): Config {
+    try {
+        return loadConfig({ base_dir: path.resolve(import.meta.dir, '..') });
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            console.error(chalk.red(error.message));
+            process.exit(1);
+        }
+        throw error;
+    }
+}
+
+// API keys are read once at startup; a broken keys file stops the server rather than opening it
+function loadServerApiKeys(): ApiKey[] {
+    try {
+        return loadApiKeys(config);
+    } catch (error) {
+        console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        process.exit(1);
+    }
+}
+
+// A real YYYY-MM-DD calendar date; the pattern alone would let 2025-02-31 through
+function isIsoDate(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 10) === value;
+}
+
+const config = loadServerConfig();
+const PORT = config.server.port;
+const HOST = config.server.host;
+const DATA_DIRECTORY = config.data_dir;
+// History routes read from the same store the collector writes (json files or sqlite)
+const STORAGE_BACKEND = config.storage.backend;
+const SQLITE_PATH = config.storage.sqlite_path;
+// Same tariff file the collector prices its exports with
+const TARIFF_FILE = config.tariff_file || path.join(DATA_DIRECTORY, 'tariff.json');
+// Keys from server.api_key and the API keys file; empty when the server is open
+const API_KEYS = loadServerApiKeys();
+
+// Query options accepted by the history routes
+type HistoryQuery = {
+    from?: string;
+    to?: string;
+    limit?: number;
+    aggregate?: AggregatePeriod;
+    fields?: string[];
+};
+
+// Where one account's files, history and tariff live
+type AccountScope = {
+    account: Account;
+    data_dir: string;
+    tariff_file: string;
+    // With a single account every meter in the store belongs to it
+    series: (serviceType: ServiceType) => SeriesKey;
+};
+
+// Most runs /runs returns at once
+const MAX_RUNS_LIMIT = 500;
+
+// Name prefix of every /metrics series
+const METRIC_PREFIX = 'duke_energy';
+
+// Written by the collector's daemon mode; its next run decides how long responses are cached
+const SCHEDULER_STATE_FILE = path.join(DATA_DIRECTORY, 'scheduler-state.json');
+
+const ACCOUNT_FORMATS = ['latest', 'history', 'recent', 'monthly', 'billing', 'raw', 'costs', 'statistics', 'gaps', 'alerts', 'weather', 'intervals'];
 
 class DukeEnergyServer {
     server: any;
+    store: UsageStore | undefined;
+    requests = new RequestMetrics();
+    // Parsed data files, dropped when the collector rewrites them
+    files = new DataFileCache();
+    compressed = new CompressedBodies();
 
     constructor() {
+        if (STORAGE_BACKEND === 'sqlite') {
+            this.store = createUsageStore({ backend: 'sqlite', data_dir: DATA_DIRECTORY, sqlite_path: SQLITE_PATH });
+        }
         this.server = fastify({ 
             logger: {
                 level: process.env.NODE_ENV === 'production' ? 'warn' : 'info',
@@ -22,15 +110,107 @@ class DukeEnergyServer {
     }
 
     setupRoutes(): void {
-        // Add CORS headers for all requests
+        // Add CORS headers for all requests; with an origin allowlist only listed origins get them
         this.server.addHook('onRequest', async (request: any, reply: any) => {
+            const origins = config.server.cors_origins;
+            const origin = request.headers.origin;
+            if (origins.includes('*')) {
+                reply.header('Access-Control-Allow-Origin', '*');
+            } else if (origin && origins.includes(origin)) {
+                reply.header('Access-Control-Allow-Origin', origin);
+            }
+            if (!origins.includes('*')) {
+                reply.header('Vary', 'Origin');
+            }
             reply.headers({
-                'Access-Control-Allow-Origin': '*',
                 'Access-Control-Allow-Methods': 'GET, OPTIONS',
-                'Access-Control-Allow-Headers': 'Content-Type'
+                'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key'
             });
         });
 
+        // API keys, when configured. Unknown URLs also need a key, so they can't be told apart from routes.
+        // Open routes still note a valid key, since it decides whether they show full account numbers.
+        this.server.decorateRequest('apiKey', null);
+        this.server.addHook('onRequest', async (request: any, reply: any) => {
+            if (API_KEYS.length === 0) {
+                return;
+            }
+            // What a response shows depends on the key, so caches must keep them apart
+            this.vary(reply, 'Authorization, X-API-Key');
+
+            const presented = presentedKey(request.headers);
+            const key = presented === null ? null : findApiKey(API_KEYS, presented);
+            request.apiKey = key;
+
+            const scope = this.routeScope(request);
+            if (scope === null) {
+                return;
+            }
+            if (!key) {
+                return reply.code(401).header('WWW-Authenticate', 'Bearer realm="duke-energy"').send({ 
+                    error: 'Unauthorized',
+                    details: presented === null ? 'Send an API key as "Authorization: Bearer <key>" or "X-API-Key: <key>"' : 'Invalid API key'
+                });
+            }
+            if (!key.scopes.includes(scope)) {
+                return reply.code(403).send({ 
+                    error: 'Forbidden',
+                    details: `API key "${key.name}" does not have the "${scope}" scope`
+                });
+            }
+        });
+
+        // Strong ETags and 304s for successful GETs, and gzip or brotli for bodies worth compressing
+        this.server.addHook('onSend', async (request: any, reply: any, payload: any) => {
+            if (payload === null || payload === undefined) {
+                return payload;
+            }
+            const encoding = negotiateEncoding(request.headers['accept-encoding']);
+
+            // Exports are streamed, so they are compressed on the way out and have no ETag
+            if (typeof payload.pipe === 'function') {
+                if (!encoding) {
+                    return payload;
+                }
+                this.vary(reply, 'Accept-Encoding');
+                reply.header('Content-Encoding', encoding);
+                reply.removeHeader('Content-Length');
+                return payload.pipe(compressStream(encoding));
+            }
+
+            let etag: string | null = null;
+            if ((request.method === 'GET' || request.method === 'HEAD') && reply.statusCode === 200) {
+                etag = etagFor(payload);
+                reply.header('ETag', etag);
+                if (notModified(request.headers, etag, reply.getHeader('Last-Modified'))) {
+                    reply.code(304);
+                    reply.removeHeader('Content-Type');
+                    reply.removeHeader('Content-Length');
+                    return null;
+                }
+            }
+
+            if (Buffer.byteLength(payload) < MIN_COMPRESS_BYTES) {
+                return payload;
+            }
+            this.vary(reply, 'Accept-Encoding');
+            if (!encoding) {
+                return payload;
+            }
+            reply.header('Content-Encoding', encoding);
+            reply.removeHeader('Content-Length');
+            if (!etag) {
+                return compress(payload, encoding);
+            }
+            reply.header('ETag', encodedEtag(etag, encoding));
+            return this.compressed.get(etag, encoding, payload);
+        });
+
+        // Request counts and latencies for /metrics, by route pattern (unmatched URLs share one series)
+        this.server.addHook('onResponse', async (request: any, reply: any) => {
+            this.requests.observe(request.method, request.routeOptions?.url ?? 'unmatched', reply.statusCode, reply.elapsedTime / 1000);
+        });
+
         // Handle OPTIONS requests (CORS preflight)
         this.server.options('*', async (request: any, reply: any) => {
             return reply.code(200).send();
@@ -45,18 +225,37 @@ class DukeEnergyServer {
                 uptime: process.uptime(),
                 endpoints: {
                     '/health': 'Server health and file status',
+                    '/status?stale_after_hours=': 'Collection status: last run, last success and consecutive failures',
+                    '/runs?limit=&account=': 'Collection run log, newest first (default 20 runs)',
+                    '/metrics': 'Usage, cost, data file age, collection and HTTP metrics in Prometheus text format',
                     '/gas-latest': 'Latest gas reading',
-                    '/gas-history': 'Complete gas historical data',
-                    '/gas-recent': 'Recent gas data (last 30 days)',
+                    '/gas-history?from=&to=&limit=&aggregate=day|week|month|year&fields=': 'Gas historical data (all query parameters optional)',
+                    '/gas-recent': `Recent gas data (last ${config.exports.recent_days} days)`,
                     '/gas-monthly': 'Gas monthly usage summaries',
+                    '/gas-billing': 'Gas billing cycle summaries',
                     '/gas-raw': 'Raw gas API response data',
                     '/electric-latest': 'Latest electric reading',
-                    '/electric-history': 'Complete electric historical data',
-                    '/electric-recent': 'Recent electric data (last 30 days)',
+                    '/electric-history?from=&to=&limit=&aggregate=day|week|month|year&fields=': 'Electric historical data (all query parameters optional)',
+                    '/electric-recent': `Recent electric data (last ${config.exports.recent_days} days)`,
                     '/electric-monthly': 'Electric monthly usage summaries',
-                    '/electric-raw': 'Raw electric API response data'
+                    '/electric-billing': 'Electric billing cycle summaries',
+                    '/electric-raw': 'Raw electric API response data',
+                    '/electric-intervals?date=YYYY-MM-DD': '15-minute electric intervals for one day (default: latest day)',
+                    '/gas-costs?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Gas costs priced with the configured tariff',
+                    '/electric-costs?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Electric costs priced with the configured tariff',
+                    '/gas-statistics?period=hour|day&from=YYYY-MM-DD': 'Gas usage and cost statistics for Home Assistant import',
+                    '/electric-statistics?period=hour|day&from=YYYY-MM-DD': 'Electric usage and cost statistics for Home Assistant import',
+                    '/alerts?service=gas|electric&severity=warning|critical&from=YYYY-MM-DD&to=YYYY-MM-DD': `Unusually high usage days (default: last ${config.exports.recent_days} days)`,
+                    '/gas-weather?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Gas usage per heating degree day with a temperature regression baseline',
+                    '/electric-weather?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Electric usage per degree day with a temperature regression baseline',
+                    '/gas-gaps?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Missing and suspect (zero or null) days in the gas history',
+                    '/electric-gaps?from=YYYY-MM-DD&to=YYYY-MM-DD': 'Missing and suspect (zero or null) days in the electric history',
+                    '/export/:type.csv?from=YYYY-MM-DD&to=YYYY-MM-DD&costs=true&resolution=day|interval&account=': 'Usage as a spreadsheet (type: gas|electric)',
+                    '/export/:type.xml?from=YYYY-MM-DD&to=YYYY-MM-DD&costs=true&resolution=day|interval&account=': 'Usage as a Green Button (ESPI) feed (type: gas|electric)',
+                    '/accounts': 'Configured accounts and meters',
+                    '/accounts/:label/:type/:format': 'Any of the above for one account (format: ' + ACCOUNT_FORMATS.join('|') + ', default latest)'
                 },
-                data_directory: path.resolve(DATA_DIRECTORY)
+                data_directory: this.exposedPath(DATA_DIRECTORY)
             };
         });
 
@@ -68,6 +267,7 @@ class DukeEnergyServer {
                     history: this.fileExists('gas/duke-gas-history.json'),
                     recent: this.fileExists('gas/duke-gas-recent.json'),
                     monthly: this.fileExists('gas/duke-gas-monthly.json'),
+                    billing: this.fileExists('gas/duke-gas-billing.json'),
                     raw: this.fileExists('gas/duke-gas-raw.json')
                 },
                 electric: {
@@ -75,35 +275,113 @@ class DukeEnergyServer {
                     history: this.fileExists('electric/duke-electric-history.json'),
                     recent: this.fileExists('electric/duke-electric-recent.json'),
                     monthly: this.fileExists('electric/duke-electric-monthly.json'),
-                    raw: this.fileExists('electric/duke-electric-raw.json')
+                    billing: this.fileExists('electric/duke-electric-billing.json'),
+                    raw: this.fileExists('electric/duke-electric-raw.json'),
+                    intervals: this.fileExists('electric/duke-electric-intervals.json')
                 }
             };
 
             const gasLastUpdated = this.getLastModified('gas/duke-gas-latest.json');
             const electricLastUpdated = this.getLastModified('electric/duke-electric-latest.json');
+
+            // Degraded while collection is failing or stale, so a monitor sees more than "the server is up"
+            const issues: string[] = [];
+            if (!fs.existsSync(DATA_DIRECTORY)) {
+                issues.push(config.server.expose_paths ? `data directory ${path.resolve(DATA_DIRECTORY)} not found` : 'data directory not found');
+            }
+
+            let accounts: any;
+            let collection: CollectionStatus | null = null;
+            try {
+                accounts = loadAccounts(config).map(account => this.describeAccount(account, request));
+                collection = this.collectionStatus();
+                issues.push(...(collection.status === 'degraded' ? collection.issues : []));
+            } catch (error) {
+                accounts = { error: error instanceof Error ? error.message : 'Unknown error' };
+                issues.push(`accounts: ${accounts.error}`);
+            }
             
             return {
-                status: 'healthy',
+                status: issues.length > 0 ? 'degraded' : 'healthy',
+                issues,
                 timestamp: new Date().toISOString(),
-                data_directory: path.resolve(DATA_DIRECTORY),
+                data_directory: this.exposedPath(DATA_DIRECTORY),
+                storage_backend: STORAGE_BACKEND,
+                config_file: config.file && this.exposedPath(config.file),
                 files_available: files,
                 last_updated: {
                     gas: gasLastUpdated,
                     electric: electricLastUpdated
                 },
+                accounts,
+                collection: collection && {
+                    status: collection.status,
+                    last_run_at: collection.last_run_at,
+                    last_success_at: collection.last_success_at,
+                    hours_since_success: collection.hours_since_success,
+                    consecutive_failures: collection.consecutive_failures
+                },
                 uptime: process.uptime(),
                 memory_usage: process.memoryUsage(),
                 environment: process.env.NODE_ENV || 'development'
             };
         });
 
+        // Collection status from the collector's run log, e.g. for a "data is stale" alert
+        this.server.get('/status', async (request: any, reply: any) => {
+            const { stale_after_hours } = request.query;
+            const staleAfterHours = stale_after_hours === undefined ? config.status.stale_after_hours : Number(stale_after_hours);
+            if (!Number.isFinite(staleAfterHours) || staleAfterHours <= 0) {
+                return reply.code(400).send({ 
+                    error: 'Invalid stale_after_hours. Must be a positive number'
+                });
+            }
+
+            try {
+                return this.collectionStatus(staleAfterHours);
+            } catch (error) {
+                console.error(chalk.red('Error reading collection status:'), error);
+                return reply.code(500).send({ 
+                    error: 'Failed to read collection status',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.server.get('/runs', async (request: any, reply: any) => {
+            const { limit = '20', account } = request.query;
+            const count = Number(limit);
+            if (!Number.isInteger(count) || count < 1 || count > MAX_RUNS_LIMIT) {
+                return reply.code(400).send({ 
+                    error: `Invalid limit. Must be an integer from 1 to ${MAX_RUNS_LIMIT}`
+                });
+            }
+
+            return readRuns(runLogFile(DATA_DIRECTORY), { limit: count, account });
+        });
+
+        // Prometheus scrape target; usage and costs are read from the history on each scrape
+        this.server.get('/metrics', async (request: any, reply: any) => {
+            try {
+                const families = [...await this.usageMetrics(), ...this.requests.families(METRIC_PREFIX)];
+                reply.header('Content-Type', METRICS_CONTENT_TYPE);
+                return formatMetrics(families);
+            } catch (error) {
+                console.error(chalk.red('Error building metrics:'), error);
+                return reply.code(500).send({ 
+                    error: 'Failed to build metrics',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
         // Gas data endpoints
         this.server.get('/gas-latest', async (request: any, reply: any) => {
             return this.serveJsonFile('gas/duke-gas-latest.json', reply);
         });
 
         this.server.get('/gas-history', async (request: any, reply: any) => {
-            return this.serveJsonFile('gas/duke-gas-history.json', reply);
+            return this.serveHistory('GAS', request, reply);
         });
 
         this.server.get('/gas-recent', async (request: any, reply: any) => {
@@ -114,6 +392,10 @@ class DukeEnergyServer {
             return this.serveJsonFile('gas/duke-gas-monthly.json', reply);
         });
 
+        this.server.get('/gas-billing', async (request: any, reply: any) => {
+            return this.serveJsonFile('gas/duke-gas-billing.json', reply);
+        });
+
         this.server.get('/gas-raw', async (request: any, reply: any) => {
             return this.serveJsonFile('gas/duke-gas-raw.json', reply);
         });
@@ -124,7 +406,7 @@ class DukeEnergyServer {
         });
 
         this.server.get('/electric-history', async (request: any, reply: any) => {
-            return this.serveJsonFile('electric/duke-electric-history.json', reply);
+            return this.serveHistory('ELECTRIC', request, reply);
         });
 
         this.server.get('/electric-recent', async (request: any, reply: any) => {
@@ -135,15 +417,77 @@ class DukeEnergyServer {
             return this.serveJsonFile('electric/duke-electric-monthly.json', reply);
         });
 
+        this.server.get('/electric-billing', async (request: any, reply: any) => {
+            return this.serveJsonFile('electric/duke-electric-billing.json', reply);
+        });
+
         this.server.get('/electric-raw', async (request: any, reply: any) => {
             return this.serveJsonFile('electric/duke-electric-raw.json', reply);
         });
 
+        // Interval data is only collected when the collector runs with ELECTRIC_INTERVALS=true
+        this.server.get('/electric-intervals', async (request: any, reply: any) => {
+            return this.serveIntervals(request, reply);
+        });
+
+        // Costs are priced on request so tariff changes apply without re-running the collector
+        this.server.get('/gas-costs', async (request: any, reply: any) => {
+            return this.serveCosts('GAS', request, reply);
+        });
+
+        this.server.get('/electric-costs', async (request: any, reply: any) => {
+            return this.serveCosts('ELECTRIC', request, reply);
+        });
+
+        // Backdated long-term statistics for Home Assistant's recorder import
+        this.server.get('/gas-statistics', async (request: any, reply: any) => {
+            return this.serveStatistics('GAS', request, reply);
+        });
+
+        this.server.get('/electric-statistics', async (request: any, reply: any) => {
+            return this.serveStatistics('ELECTRIC', request, reply);
+        });
+
+        // Usage anomalies for both services, newest first
+        this.server.get('/alerts', async (request: any, reply: any) => {
+            const { service } = request.query;
+            if (service !== undefined && !['gas', 'electric'].includes(service)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid service. Must be "gas" or "electric"'
+                });
+            }
+            const services: ServiceType[] = service ? [service.toUpperCase()] : ['GAS', 'ELECTRIC'];
+            return this.serveAlerts(services, request, reply);
+        });
+
+        // Usage against heating and cooling degree days from the configured temperature file
+        this.server.get('/gas-weather', async (request: any, reply: any) => {
+            return this.serveWeather('GAS', request, reply);
+        });
+
+        this.server.get('/electric-weather', async (request: any, reply: any) => {
+            return this.serveWeather('ELECTRIC', request, reply);
+        });
+
+        // Days the collector couldn't fill; computed from the history so SQLite stores are covered too
+        this.server.get('/gas-gaps', async (request: any, reply: any) => {
+            return this.serveGaps('GAS', request, reply);
+        });
+
+        this.server.get('/electric-gaps', async (request: any, reply: any) => {
+            return this.serveGaps('ELECTRIC', request, reply);
+        });
+
+        // Streamed CSV and Green Button downloads, e.g. /export/gas.csv
+        this.server.get('/export/:file', async (request: any, reply: any) => {
+            return this.serveExport(request, reply);
+        });
+
         // Generic data endpoint with filtering
         this.server.get('/data/:type/:format?', async (request: any, reply: any) => {
             const { type, format } = request.params;
             const validTypes = ['gas', 'electric'];
-            const validFormats = ['latest', 'history', 'recent', 'monthly', 'raw'];
+            const validFormats = ['latest', 'history', 'recent', 'monthly', 'billing', 'raw'];
             
             if (!validTypes.includes(type)) {
                 return reply.code(400).send({ 
@@ -160,19 +504,93 @@ class DukeEnergyServer {
                 });
             }
             
+            if (fileFormat === 'history') {
+                return this.serveHistory(type.toUpperCase() as ServiceType, request, reply);
+            }
+
             const filename = `${type}/duke-${type}-${fileFormat}.json`;
             return this.serveJsonFile(filename, reply);
         });
 
+        // Accounts and meters from the accounts file
+        this.server.get('/accounts', async (request: any, reply: any) => {
+            try {
+                return loadAccounts(config).map(account => this.describeAccount(account, request));
+            } catch (error) {
+                return reply.code(500).send({ 
+                    error: 'Failed to load accounts',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Per-account data; the default account's is also served by the routes above
+        this.server.get('/accounts/:label/:type/:format?', async (request: any, reply: any) => {
+            const { label, type, format } = request.params;
+            let accounts: Account[];
+            try {
+                accounts = loadAccounts(config);
+            } catch (error) {
+                return reply.code(500).send({ 
+                    error: 'Failed to load accounts',
+                    details: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+
+            const account = accounts.find(account => account.label === label);
+            if (!account) {
+                return reply.code(404).send({ 
+                    error: `Unknown account ${label}`,
+                    accounts: accounts.map(account => account.label)
+                });
+            }
+
+            const serviceType = type.toUpperCase() as ServiceType;
+            if (!['GAS', 'ELECTRIC'].includes(serviceType) || !meterFor(account, serviceType)) {
+                return reply.code(404).send({ 
+                    error: `Account ${label} has no ${type} meter`,
+                    valid_types: (['GAS', 'ELECTRIC'] as const).filter(service => meterFor(account, service)).map(service => service.toLowerCase())
+                });
+            }
+
+            const fileFormat = format || 'latest';
+            if (!ACCOUNT_FORMATS.includes(fileFormat) || (fileFormat === 'intervals' && serviceType !== 'ELECTRIC')) {
+                return reply.code(400).send({ 
+                    error: 'Invalid format',
+                    valid_formats: ACCOUNT_FORMATS.filter(name => name !== 'intervals' || serviceType === 'ELECTRIC')
+                });
+            }
+
+            const scope = this.scope(account, accounts);
+            switch (fileFormat) {
+                case 'history':
+                    return this.serveHistory(serviceType, request, reply, scope);
+                case 'costs':
+                    return this.serveCosts(serviceType, request, reply, scope);
+                case 'statistics':
+                    return this.serveStatistics(serviceType, request, reply, scope);
+                case 'gaps':
+                    return this.serveGaps(serviceType, request, reply, scope);
+                case 'alerts':
+                    return this.serveAlerts([serviceType], request, reply, scope);
+                case 'weather':
+                    return this.serveWeather(serviceType, request, reply, scope);
+                case 'intervals':
+                    return this.serveIntervals(request, reply, scope);
+                default:
+                    return this.serveJsonFile(`${type}/duke-${type}-${fileFormat}.json`, reply, undefined, scope.data_dir);
+            }
+        });
+
         // List all available files
         this.server.get('/files', async (request: any, reply: any) => {
             const availableFiles = this.listAvailableFiles();
             return {
-                data_directory: path.resolve(DATA_DIRECTORY),
+                data_directory: this.exposedPath(DATA_DIRECTORY),
                 total_files: availableFiles.length,
                 files: availableFiles.map(file => ({
                     name: file,
-                    path: this.getFilePath(file),
+                    path: this.exposedPath(this.getFilePath(file)),
                     last_modified: this.getLastModified(file),
                     size: this.getFileSize(file)
                 }))
@@ -180,21 +598,41 @@ class DukeEnergyServer {
         });
     }
 
-    private getFilePath(filename: string): string {
-        return path.join(DATA_DIRECTORY, filename);
+    // Absolute path for responses, or undefined (left out of the JSON) when paths are hidden
+    private exposedPath(filename: string): string | undefined {
+        return config.server.expose_paths ? path.resolve(filename) : undefined;
+    }
+
+    // Scope a request needs; null for the routes that stay open (service info, health checks, CORS preflight)
+    private routeScope(request: any): ApiScope | null {
+        const route = request.routeOptions?.url;
+        if (request.method === 'OPTIONS' || route === '/' || route === '/health') {
+            return null;
+        }
+        if (route === '/gas-raw' || route === '/electric-raw' || ((route?.startsWith('/data/') || route?.startsWith('/accounts/')) && request.params?.format === 'raw')) {
+            return 'raw';
+        }
+        if (route === '/metrics') {
+            return 'metrics';
+        }
+        return route === '/files' ? 'files' : 'summary';
+    }
+
+    private getFilePath(filename: string, dataDir = DATA_DIRECTORY): string {
+        return path.join(dataDir, filename);
     }
 
-    private fileExists(filename: string): boolean {
+    private fileExists(filename: string, dataDir = DATA_DIRECTORY): boolean {
         try {
-            return fs.existsSync(this.getFilePath(filename));
+            return fs.existsSync(this.getFilePath(filename, dataDir));
         } catch (error) {
             return false;
         }
     }
 
-    private getLastModified(filename: string): string | null {
+    private getLastModified(filename: string, dataDir = DATA_DIRECTORY): string | null {
         try {
-            const stats = fs.statSync(this.getFilePath(filename));
+            const stats = fs.statSync(this.getFilePath(filename, dataDir));
             return stats.mtime.toISOString();
         } catch (error) {
             return null;
@@ -210,25 +648,26 @@ class DukeEnergyServer {
         }
     }
 
-    private async serveJsonFile(filename: string, reply: any): Promise<any> {
+    private async serveJsonFile(filename: string, reply: any, transform?: (data: any) => any, dataDir = DATA_DIRECTORY): Promise<any> {
         try {
-            if (!this.fileExists(filename)) {
+            const file = await this.files.read(this.getFilePath(filename, dataDir));
+            if (!file) {
                 return reply.code(404).send({ 
                     error: `File ${filename} not found`,
-                    available_files: this.listAvailableFiles(),
-                    data_directory: path.resolve(DATA_DIRECTORY)
+                    available_files: this.listAvailableFiles(dataDir),
+                    data_directory: this.exposedPath(dataDir)
                 });
             }
 
-            const data = JSON.parse(fs.readFileSync(this.getFilePath(filename), 'utf8'));
+            // The cached data is shared between requests, so transforms must not modify it
+            const body = transform ? await transform(file.data) : file.data;
             
             // Add metadata to response headers
-            const stats = fs.statSync(this.getFilePath(filename));
-            reply.header('Last-Modified', stats.mtime.toUTCString());
+            reply.header('Last-Modified', file.mtime.toUTCString());
             reply.header('Content-Type', 'application/json');
-            reply.header('Cache-Control', 'public, max-age=900'); // Cache for 15 minutes
+            reply.header('Cache-Control', await this.cacheControl());
             
-            return data;
+            return body;
             
         } catch (error) {
             console.error(chalk.red(`Error serving ${filename}:`), error);
@@ -239,20 +678,574 @@ class DukeEnergyServer {
         }
     }
 
-    private listAvailableFiles(): string[] {
+    // Data responses stay cached until the collector's next run: the daemon's schedule, or the usual
+    // gap between logged runs when cron or Task Scheduler starts the collector
+    private async cacheControl(): Promise<string> {
+        const state = await this.files.read<SchedulerTimes>(SCHEDULER_STATE_FILE);
+        const runs = await this.files.read(runLogFile(DATA_DIRECTORY), parseRuns);
+        return cacheControl(nextCollection(state?.data ?? null, expectedNextRun(runs?.data ?? [])), API_KEYS.length > 0);
+    }
+
+    // Add to Vary, keeping what earlier hooks set: the CORS Origin, the API key headers, then
+    // Accept-Encoding for compressible responses
+    private vary(reply: any, headers: string): void {
+        const vary = reply.getHeader('Vary');
+        reply.header('Vary', vary ? `${vary}, ${headers}` : headers);
+    }
+
+    // Files, tariff and store series for an account (the default account unless given)
+    private scope(account?: Account, accounts: Account[] = loadAccounts(config)): AccountScope {
+        const selected = account ?? defaultAccount(accounts);
+        const dataDir = accountDataDir(DATA_DIRECTORY, selected);
+        const accountTariff = path.join(dataDir, 'tariff.json');
+        return {
+            account: selected,
+            data_dir: dataDir,
+            tariff_file: !config.tariff_file && !selected.default && fs.existsSync(accountTariff) ? accountTariff : TARIFF_FILE,
+            series: (serviceType: ServiceType) => accounts.length > 1
+                ? { service: serviceType, meter: meterFor(selected, serviceType) || '' }
+                : { service: serviceType }
+        };
+    }
+
+    private collectionStatus(staleAfterHours = config.status.stale_after_hours): CollectionStatus {
+        const labels = loadAccounts(config).map(account => account.label);
+        return collectionStatus(readRuns(runLogFile(DATA_DIRECTORY)), labels, staleAfterHours);
+    }
+
+    // Per account and service: latest and month-to-date usage and cost, data file ages, and the
+    // last logged collection run
+    private async usageMetrics(): Promise<MetricFamily[]> {
+        const gauge = (name: string, help: string): MetricFamily => ({ name: `${METRIC_PREFIX}_${name}`, help, type: 'gauge', samples: [] });
+        const latestUsage = gauge('latest_usage', 'Usage on the latest day in the history (CCF for gas, kWh for electric)');
+        const latestDay = gauge('latest_reading_timestamp_seconds', 'Start (local midnight) of the latest day in the history');
+        const monthUsage = gauge('month_to_date_usage', 'Usage so far this calendar month');
+        const latestCost = gauge('latest_cost', 'Estimated cost of the latest day, priced with the tariff');
+        const monthCost = gauge('month_to_date_cost', 'Estimated cost so far this calendar month, priced with the tariff');
+        const fileAge = gauge('data_file_age_seconds', 'Seconds since a data file was last written');
+        const lastRun = gauge('collection_last_run_timestamp_seconds', 'When the last logged collection run finished');
+        const lastRunSuccess = gauge('collection_last_run_success', 'Whether the last collection run collected the service (1) or not (0)');
+        const lastRunDuration = gauge('collection_last_run_duration_seconds', 'How long the last collection run took');
+        const lastSuccess = gauge('collection_last_success_timestamp_seconds', 'When the last successful collection run finished');
+        const failures = gauge('collection_consecutive_failures', 'Failed collection runs since the last successful one');
+
+        const now = new Date();
+        const month = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+        const seconds = (timestamp: string) => new Date(timestamp).getTime() / 1000;
+        const accounts = loadAccounts(config);
+        const runs = new Map(this.collectionStatus().accounts.map(status => [status.account, status]));
+
+        for (const account of accounts) {
+            const scope = this.scope(account, accounts);
+            const store = this.store ?? new JsonUsageStore(scope.data_dir);
+            const run = runs.get(account.label);
+            if (run?.last_run) {
+                lastRun.samples.push({ labels: { account: account.label }, value: seconds(run.last_run.finished_at) });
+                lastRunDuration.samples.push({ labels: { account: account.label }, value: run.last_run.duration_seconds });
+                failures.samples.push({ labels: { account: account.label }, value: run.consecutive_failures });
+            }
+            if (run?.last_success_at) {
+                lastSuccess.samples.push({ labels: { account: account.label }, value: seconds(run.last_success_at) });
+            }
+
+            for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+                const type = serviceType.toLowerCase() as 'gas' | 'electric';
+                const labels = { account: account.label, service: type, meter: meterFor(account, serviceType) || '' };
+
+                const service_run = run?.last_run?.services[type];
+                if (service_run?.configured) {
+                    lastRunSuccess.samples.push({ labels, value: service_run.success ? 1 : 0 });
+                }
+                for (const file of this.listAvailableFiles(scope.data_dir).filter(file => file.startsWith(`${type}/`))) {
+                    const age = (now.getTime() - fs.statSync(this.getFilePath(file, scope.data_dir)).mtime.getTime()) / 1000;
+                    fileAge.samples.push({ labels: { ...labels, file: path.basename(file) }, value: Math.max(0, Math.round(age)) });
+                }
+
+                const history = store.load(scope.series(serviceType));
+                const latest = history[history.length - 1];
+                if (!latest) {
+                    continue;
+                }
+                const field = serviceType === 'GAS' ? 'usage_ccf' : 'usage_kwh';
+                const unit = serviceType === 'GAS' ? 'CCF' : 'kWh';
+                const inMonth = (date: string) => toStorageDate(date).slice(0, 7) === month;
+                const day = dailyReadings([latest], serviceType)[0];
+
+                latestUsage.samples.push({ labels: { ...labels, unit }, value: latest[field] ?? NaN });
+                if (day) {
+                    latestDay.samples.push({ labels, value: day.start.getTime() / 1000 });
+                }
+                monthUsage.samples.push({
+                    labels: { ...labels, unit },
+                    value: parseFloat(history.filter(record => inMonth(record.date)).reduce((sum, record) => sum + (record[field] ?? 0), 0).toFixed(3))
+                });
+
+                // Price the whole history so tiered blocks see month-to-date usage
+                const currency = TariffEngine.fromFile(scope.tariff_file).currency;
+                const costs = await this.priceHistory(serviceType, history, scope);
+                const latestDayCost = costs.find(cost => cost.date === latest.date);
+                if (latestDayCost) {
+                    latestCost.samples.push({ labels: { ...labels, currency }, value: latestDayCost.total });
+                }
+                monthCost.samples.push({
+                    labels: { ...labels, currency },
+                    value: parseFloat(costs.filter(cost => inMonth(cost.date)).reduce((sum, cost) => sum + cost.total, 0).toFixed(4))
+                });
+            }
+        }
+
+        return [latestUsage, latestDay, monthUsage, latestCost, monthCost, fileAge, lastRun, lastRunSuccess, lastRunDuration, lastSuccess, failures];
+    }
+
+    // Full account and meter numbers need the raw scope (or an open server); other callers see the last digits
+    private describeAccount(account: Account, request: any): any {
+        const dataDir = accountDataDir(DATA_DIRECTORY, account);
+        const fullNumbers = API_KEYS.length === 0 || !!request.apiKey?.scopes.includes('raw');
+        const shown = (number: string) => fullNumbers ? number : maskAccountNumber(number);
+        return {
+            label: account.label,
+            account_number: shown(account.account_number),
+            gas_meter: account.gas_meter ? shown(account.gas_meter) : null,
+            electric_meter: account.electric_meter ? shown(account.electric_meter) : null,
+            default: !!account.default,
+            data_directory: this.exposedPath(dataDir),
+            last_updated: {
+                gas: this.getLastModified('gas/duke-gas-latest.json', dataDir),
+                electric: this.getLastModified('electric/duke-electric-latest.json', dataDir)
+            }
+        };
+    }
+
+    // Validate history query parameters; returns an error message for a 400 response
+    private parseHistoryQuery(query: any): { options: HistoryQuery } | { error: string; [key: string]: any } {
+        const options: HistoryQuery = {};
+
+        for (const name of ['from', 'to'] as const) {
+            const value = query[name];
+            if (value === undefined) {
+                continue;
+            }
+            if (!isIsoDate(value)) {
+                return { error: `Invalid ${name} date. Must be YYYY-MM-DD` };
+            }
+            options[name] = value;
+        }
+        if (options.from && options.to && options.from > options.to) {
+            return { error: 'Invalid date range. from must not be after to' };
+        }
+
+        if (query.limit !== undefined) {
+            const limit = Number(query.limit);
+            if (!Number.isInteger(limit) || limit < 1) {
+                return { error: 'Invalid limit. Must be a positive integer' };
+            }
+            options.limit = limit;
+        }
+
+        if (query.aggregate !== undefined) {
+            if (!AGGREGATE_PERIODS.includes(query.aggregate)) {
+                return { error: 'Invalid aggregate', valid_aggregates: AGGREGATE_PERIODS };
+            }
+            options.aggregate = query.aggregate;
+        }
+
+        if (query.fields !== undefined) {
+            const fields = String(query.fields).split(',').map(field => field.trim()).filter(field => field);
+            if (fields.length === 0 || fields.some(field => !/^[A-Za-z0-9_]+$/.test(field))) {
+                return { error: 'Invalid fields. Must be a comma-separated list of field names' };
+            }
+            options.fields = fields;
+        }
+
+        return { options };
+    }
+
+    // History comes from the SQLite store when configured, otherwise from the JSON history file.
+    // Without query parameters the full history is returned unchanged.
+    private async serveHistory(serviceType: ServiceType, request: any, reply: any, scope = this.scope()): Promise<any> {
+        const prefix = serviceType.toLowerCase();
+        const parsed = this.parseHistoryQuery(request.query || {});
+        if ('error' in parsed) {
+            return reply.code(400).send(parsed);
+        }
+
+        const { options } = parsed;
+        const filtered = Object.keys(options).length > 0;
+        let invalidFields: string[] | null = null;
+        const transform = async (records: any[]) => {
+            const result = await this.applyHistoryQuery(serviceType, Array.isArray(records) ? records : [], options, scope);
+            invalidFields = result.invalid_fields;
+            return result.records;
+        };
+
+        if (!this.store) {
+            const response = await this.serveJsonFile(`${prefix}/duke-${prefix}-history.json`, reply, filtered ? transform : undefined, scope.data_dir);
+            if (invalidFields) {
+                return reply.code(400).send({ error: 'Unknown fields', invalid_fields: invalidFields });
+            }
+            return response;
+        }
+
+        try {
+            // Costs for aggregates are priced on the whole history, so only plain queries narrow the read
+            const bounds = options.aggregate ? {} : {
+                from: options.from ? new Date(`${options.from}T00:00:00`) : undefined,
+                to: options.to ? new Date(`${options.to}T00:00:00`) : undefined
+            };
+            const records = this.store.query(scope.series(serviceType), bounds);
+            const body = filtered ? await transform(records) : records;
+            if (invalidFields) {
+                return reply.code(400).send({ error: 'Unknown fields', invalid_fields: invalidFields });
+            }
+            reply.header('Content-Type', 'application/json');
+            reply.header('Cache-Control', await this.cacheControl());
+            return body;
+        } catch (error) {
+            console.error(chalk.red(`Error querying ${prefix} history:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to query ${prefix} history`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    // Filter by date, aggregate, keep the most recent `limit` entries and project `fields`
+    private async applyHistoryQuery(serviceType: ServiceType, history: any[], options: HistoryQuery, scope: AccountScope): Promise<{ records: any[]; invalid_fields: string[] | null }> {
+        const dayOf = (record: any) => `${record.date.slice(6, 10)}-${record.date.slice(0, 2)}-${record.date.slice(3, 5)}`;
+        const inRange = (record: any) => (!options.from || dayOf(record) >= options.from) && (!options.to || dayOf(record) <= options.to);
+
+        let records = history.filter(inRange);
+        if (options.aggregate) {
+            const costs = await this.priceHistory(serviceType, history, scope);
+            records = aggregateUsage(records, serviceType, options.aggregate, costs);
+        }
+        if (options.limit) {
+            records = records.slice(-options.limit);
+        }
+
+        if (options.fields) {
+            const available = new Set(records.flatMap(record => Object.keys(record)));
+            const invalid = options.fields.filter(field => !available.has(field));
+            if (records.length > 0 && invalid.length > 0) {
+                return { records: [], invalid_fields: invalid };
+            }
+            records = records.map(record => Object.fromEntries(options.fields!.filter(field => field in record).map(field => [field, record[field]])));
+        }
+
+        return { records, invalid_fields: null };
+    }
+
+    // Interval data is only collected when the collector runs with ELECTRIC_INTERVALS=true
+    private async serveIntervals(request: any, reply: any, scope?: AccountScope): Promise<any> {
+        const { date } = request.query;
+        if (date !== undefined && !isIsoDate(date)) {
+            return reply.code(400).send({ 
+                error: 'Invalid date. Must be YYYY-MM-DD'
+            });
+        }
+
+        return this.serveJsonFile('electric/duke-electric-intervals.json', reply, (intervals: any[]) => {
+            // Interval records carry the collector's MM/DD/YYYY day key
+            const dateKey = date
+                ? `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`
+                : intervals[intervals.length - 1]?.date;
+            return intervals.filter(interval => interval.date === dateKey);
+        }, scope?.data_dir);
+    }
+
+    // Interval readings by record date (electric interval mode only)
+    private async loadIntervals(serviceType: ServiceType, dataDir = DATA_DIRECTORY): Promise<Map<string, any[]>> {
+        if (serviceType !== 'ELECTRIC') {
+            return new Map();
+        }
+        const intervals = await this.files.read(this.getFilePath('electric/duke-electric-intervals.json', dataDir));
+        return groupIntervalsByDate(intervals?.data ?? []);
+    }
+
+    // Price daily history with the tariff file; interval readings feed time-of-use plans
+    private async priceHistory(serviceType: ServiceType, history: any[], scope: AccountScope): Promise<DayCost[]> {
+        const tariff = TariffEngine.fromFile(scope.tariff_file);
+        return tariff.priceDays(serviceType, history, await this.loadIntervals(serviceType, scope.data_dir));
+    }
+
+    private async serveStatistics(serviceType: ServiceType, request: any, reply: any, scope = this.scope()): Promise<any> {
+        const { period = 'hour', from } = request.query;
+        if (!STATISTIC_PERIODS.includes(period)) {
+            return reply.code(400).send({ 
+                error: 'Invalid period',
+                valid_periods: STATISTIC_PERIODS
+            });
+        }
+        if (from !== undefined && !isIsoDate(from)) {
+            return reply.code(400).send({ 
+                error: 'Invalid from date. Must be YYYY-MM-DD'
+            });
+        }
+
+        try {
+            const tariff = TariffEngine.fromFile(scope.tariff_file);
+            const history = (this.store ?? new JsonUsageStore(scope.data_dir)).load(scope.series(serviceType));
+            const statistics = buildStatistics(serviceType, history, await this.priceHistory(serviceType, history, scope), {
+                period: period as StatisticPeriod,
+                intervals: await this.loadIntervals(serviceType, scope.data_dir),
+                currency: tariff.currency,
+                account: scope.account.default ? undefined : scope.account.label
+            });
+
+            // Sums always run from the first record, so a partial import continues the same totals
+            reply.header('Content-Type', 'application/json');
+            return statistics.map(statistic => ({
+                ...statistic,
+                stats: from ? statistic.stats.filter(row => row.start.slice(0, 10) >= from) : statistic.stats
+            }));
+        } catch (error) {
+            console.error(chalk.red(`Error building ${serviceType.toLowerCase()} statistics:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to build ${serviceType.toLowerCase()} statistics`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    // Checks the last recent_days days unless from/to are given; severity=critical leaves out warnings
+    private async serveAlerts(services: ServiceType[], request: any, reply: any, scope = this.scope()): Promise<any> {
+        const { from, to, severity } = request.query;
+        for (const value of [from, to]) {
+            if (value !== undefined && !isIsoDate(value)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid date. Must be YYYY-MM-DD'
+                });
+            }
+        }
+        if (severity !== undefined && !ALERT_SEVERITIES.includes(severity)) {
+            return reply.code(400).send({ 
+                error: 'Invalid severity',
+                valid_severities: ALERT_SEVERITIES
+            });
+        }
+
+        const recentStart = new Date();
+        recentStart.setDate(recentStart.getDate() - config.exports.recent_days);
+        try {
+            const store = this.store ?? new JsonUsageStore(scope.data_dir);
+            const alerts: UsageAlert[] = services.flatMap(serviceType => detectAnomalies(store.load(scope.series(serviceType)), serviceType, {
+                ...anomalyOptions(config.alerts, serviceType),
+                from: from ?? (to ? undefined : recentStart.toISOString().slice(0, 10)),
+                to
+            }));
+            return alerts
+                .filter(alert => severity !== 'critical' || alert.severity === 'critical')
+                .sort((a, b) => b.date.localeCompare(a.date));
+        } catch (error) {
+            console.error(chalk.red('Error detecting usage anomalies:'), error);
+            return reply.code(500).send({ 
+                error: 'Failed to detect usage anomalies',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    // Temperatures are re-read on each request, so an updated export applies straight away
+    private async serveWeather(serviceType: ServiceType, request: any, reply: any, scope = this.scope()): Promise<any> {
+        const { from, to } = request.query;
+        for (const value of [from, to]) {
+            if (value !== undefined && !isIsoDate(value)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid date. Must be YYYY-MM-DD'
+                });
+            }
+        }
+
+        try {
+            const temperatures = loadTemperatures(config.weather.file);
+            if (temperatures.length === 0) {
+                return reply.code(404).send({ 
+                    error: `No temperatures found in ${config.weather.file}`,
+                    details: 'Set WEATHER_FILE (or weather.file in config.json) to a daily temperature CSV or JSON file'
+                });
+            }
+            const history = (this.store ?? new JsonUsageStore(scope.data_dir)).load(scope.series(serviceType));
+            return normalizeUsage(history, serviceType, temperatures, { ...config.weather, from, to });
+        } catch (error) {
+            console.error(chalk.red(`Error normalizing ${serviceType.toLowerCase()} usage for weather:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to normalize ${serviceType.toLowerCase()} usage for weather`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private async serveGaps(serviceType: ServiceType, request: any, reply: any, scope = this.scope()): Promise<any> {
+        const { from, to } = request.query;
+        for (const value of [from, to]) {
+            if (value !== undefined && !isIsoDate(value)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid date. Must be YYYY-MM-DD'
+                });
+            }
+        }
+
+        try {
+            const history = (this.store ?? new JsonUsageStore(scope.data_dir)).load(scope.series(serviceType));
+            return findGaps(history, serviceType, { from, to });
+        } catch (error) {
+            console.error(chalk.red(`Error finding ${serviceType.toLowerCase()} gaps:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to find ${serviceType.toLowerCase()} gaps`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private async serveCosts(serviceType: ServiceType, request: any, reply: any, scope = this.scope()): Promise<any> {
+        const { from, to } = request.query;
+        for (const value of [from, to]) {
+            if (value !== undefined && !isIsoDate(value)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid date. Must be YYYY-MM-DD'
+                });
+            }
+        }
+
+        try {
+            const tariff = TariffEngine.fromFile(scope.tariff_file);
+            const history = (this.store ?? new JsonUsageStore(scope.data_dir)).load(scope.series(serviceType));
+
+            // Price the whole history so tiered blocks see month-to-date usage, then filter
+            const daily = (await this.priceHistory(serviceType, history, scope)).filter(cost => {
+                const day = `${cost.date.slice(6, 10)}-${cost.date.slice(0, 2)}-${cost.date.slice(3, 5)}`;
+                return (!from || day >= from) && (!to || day <= to);
+            });
+
+            const months = new Map<string, typeof daily>();
+            for (const cost of daily) {
+                const month = `${cost.date.slice(6, 10)}-${cost.date.slice(0, 2)}`;
+                months.set(month, [...(months.get(month) ?? []), cost]);
+            }
+
+            reply.header('Content-Type', 'application/json');
+            return {
+                service: serviceType.toLowerCase(),
+                currency: tariff.currency,
+                totals: tariff.totals(daily),
+                monthly: [...months.entries()].map(([month, costs]) => ({ month, ...tariff.totals(costs) })),
+                daily
+            };
+        } catch (error) {
+            console.error(chalk.red(`Error pricing ${serviceType.toLowerCase()} usage:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to price ${serviceType.toLowerCase()} usage`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    // The document is generated while it is sent, so long histories aren't built up in memory
+    private async serveExport(request: any, reply: any): Promise<any> {
+        const match = /^(gas|electric)\.(csv|xml)$/.exec(request.params.file);
+        if (!match) {
+            return reply.code(404).send({ 
+                error: 'Unknown export. Use /export/gas.csv, /export/gas.xml, /export/electric.csv or /export/electric.xml'
+            });
+        }
+        const serviceType = match[1].toUpperCase() as ServiceType;
+        const format = match[2] as ExportFormat;
+
+        const { from, to, costs = 'false', resolution = 'day', account: label } = request.query;
+        for (const value of [from, to]) {
+            if (value !== undefined && !isIsoDate(value)) {
+                return reply.code(400).send({ 
+                    error: 'Invalid date. Must be YYYY-MM-DD'
+                });
+            }
+        }
+        if (!['true', 'false'].includes(costs)) {
+            return reply.code(400).send({ 
+                error: 'Invalid costs. Must be "true" or "false"'
+            });
+        }
+        if (!EXPORT_RESOLUTIONS.includes(resolution) || (resolution === 'interval' && serviceType !== 'ELECTRIC')) {
+            return reply.code(400).send({ 
+                error: 'Invalid resolution',
+                valid_resolutions: serviceType === 'ELECTRIC' ? EXPORT_RESOLUTIONS : ['day']
+            });
+        }
+        // Tariffs price whole days, so interval readings can't carry costs
+        if (resolution === 'interval' && costs === 'true') {
+            return reply.code(400).send({ 
+                error: 'Costs are only available with resolution=day'
+            });
+        }
+
+        try {
+            const accounts = loadAccounts(config);
+            const account = label === undefined ? undefined : accounts.find(account => account.label === label);
+            if (label !== undefined && !account) {
+                return reply.code(404).send({ 
+                    error: `Unknown account ${label}`,
+                    accounts: accounts.map(account => account.label)
+                });
+            }
+            const scope = this.scope(account, accounts);
+            const inRange = (date: string) => (!from || date >= from) && (!to || date <= to);
+
+            let readings;
+            if (resolution === 'interval') {
+                const intervals = await this.files.read(this.getFilePath('electric/duke-electric-intervals.json', scope.data_dir));
+                if (!intervals) {
+                    return reply.code(404).send({ 
+                        error: 'No interval data found',
+                        details: 'Interval data is only collected when the collector runs with ELECTRIC_INTERVALS=true'
+                    });
+                }
+                readings = intervalReadings(intervals.data, from, to);
+            } else {
+                // Price the whole history so tiered blocks see month-to-date usage, then filter
+                const history = (this.store ?? new JsonUsageStore(scope.data_dir)).load(scope.series(serviceType));
+                const daily = costs === 'true' ? await this.priceHistory(serviceType, history, scope) : undefined;
+                readings = dailyReadings(history, serviceType, daily).filter(reading => inRange(reading.date));
+            }
+
+            const type = serviceType.toLowerCase();
+            const name = [scope.account.default ? undefined : scope.account.label, `duke-${type}`, from, to].filter(Boolean).join('-');
+            const document = format === 'csv'
+                ? csvExport(readings, serviceType, { costs: costs === 'true' })
+                : espiExport(readings, serviceType, {
+                    title: `Duke Energy ${type} usage${scope.account.default ? '' : ` (${scope.account.label})`}`,
+                    id_seed: `${scope.account.label}/${type}/${resolution}`,
+                    costs: costs === 'true',
+                    currency: TariffEngine.fromFile(scope.tariff_file).currency
+                });
+
+            reply.header('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/atom+xml; charset=utf-8');
+            reply.header('Content-Disposition', `attachment; filename="${name}.${format}"`);
+            return reply.send(Readable.from(document));
+        } catch (error) {
+            console.error(chalk.red(`Error exporting ${serviceType.toLowerCase()} usage:`), error);
+            return reply.code(500).send({ 
+                error: `Failed to export ${serviceType.toLowerCase()} usage`,
+                details: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private listAvailableFiles(dataDir = DATA_DIRECTORY): string[] {
         const possibleFiles = [
             'gas/duke-gas-latest.json', 
             'gas/duke-gas-history.json', 
             'gas/duke-gas-recent.json', 
             'gas/duke-gas-monthly.json', 
+            'gas/duke-gas-billing.json',
             'gas/duke-gas-raw.json',
             'electric/duke-electric-latest.json', 
             'electric/duke-electric-history.json', 
             'electric/duke-electric-recent.json',
             'electric/duke-electric-monthly.json', 
-            'electric/duke-electric-raw.json'
+            'electric/duke-electric-billing.json',
+            'electric/duke-electric-raw.json',
+            'electric/duke-electric-intervals.json'
         ];
-        return possibleFiles.filter(file => this.fileExists(file));
+        return possibleFiles.filter(file => this.fileExists(file, dataDir));
     }
 
     private setupGracefulShutdown(): void {
@@ -261,6 +1254,8 @@ class DukeEnergyServer {
             console.log(chalk.yellow(`\n🛑 Received ${signal}. Starting graceful shutdown...`));
             try {
                 await this.server.close();
+                this.store?.close();
+                this.files.close();
                 console.log(chalk.green('✅ Server shut down gracefully'));
                 process.exit(0);
             } catch (error) {
@@ -286,6 +1281,11 @@ class DukeEnergyServer {
             console.log(chalk.green(`🚀 Duke Energy Data Server started successfully!`));
             console.log(chalk.blue(`📡 Server running on: http://${HOST}:${PORT}`));
             console.log(chalk.blue(`📁 Data directory: ${path.resolve(DATA_DIRECTORY)}`));
+            console.log(chalk.blue(`⚙️  Config file: ${config.file ?? 'none (defaults and environment)'}`));
+            console.log(chalk.blue(`🗄️  Storage backend: ${STORAGE_BACKEND}${this.store ? ` (${path.resolve(SQLITE_PATH)})` : ''}`));
+            console.log(chalk.blue(`💲 Tariff file: ${path.resolve(TARIFF_FILE)}${fs.existsSync(TARIFF_FILE) ? '' : ' (not found, using default rates)'}`));
+            console.log(chalk.blue(`🔑 API keys: ${API_KEYS.length > 0 ? `${API_KEYS.map(key => key.name).join(', ')}` : 'none (every route is open)'}`));
+            console.log(chalk.blue(`🌐 CORS origins: ${config.server.cors_origins.join(', ') || 'none'}`));
             console.log(chalk.blue(`🐳 Environment: ${process.env.NODE_ENV || 'development'}`));
             
             // Log available endpoints
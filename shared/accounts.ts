@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import type { ServiceType } from "./storage.ts";
+import type { Config } from "./config.ts";
+
+// Duke accounts and meters collected by one installation. Without an accounts file there is a
+// single account built from the configured account (ACCOUNTNUM/GAS_METERNUM/ELECTRIC_METERNUM). The default account
+// keeps the original file layout under the data directory (and the original server routes);
+// every other account gets its own namespace under <data_dir>/accounts/<label>/.
+
+export type Account = {
+	// Short name used in paths, routes and MQTT topics
+	label: string;
+	account_number: string;
+	gas_meter?: string;
+	electric_meter?: string;
+	// The account served by the original routes; defaults to the first one
+	default?: boolean;
+};
+
+export const DEFAULT_ACCOUNT_LABEL = 'default';
+
+const LABEL_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export function accountFromConfig(config: Config): Account {
+	return {
+		label: DEFAULT_ACCOUNT_LABEL,
+		account_number: config.account.account_number,
+		gas_meter: config.account.gas_meter || undefined,
+		electric_meter: config.account.electric_meter || undefined,
+		default: true
+	};
+}
+
+export function validateAccounts(accounts: Account[]): string[] {
+	const errors: string[] = [];
+	if (!Array.isArray(accounts) || accounts.length === 0) {
+		return ['accounts must be a non-empty array'];
+	}
+
+	const labels = new Set<string>();
+	accounts.forEach((account, index) => {
+		const where = `accounts[${index}]`;
+		if (typeof account.label !== 'string' || !LABEL_PATTERN.test(account.label)) {
+			errors.push(`${where}.label must be lowercase letters, digits, "-" or "_"`);
+		} else if (labels.has(account.label)) {
+			errors.push(`${where}.label "${account.label}" is used twice`);
+		}
+		labels.add(account.label);
+
+		if (typeof account.account_number !== 'string' || !account.account_number.trim()) {
+			errors.push(`${where}.account_number is required`);
+		}
+		if (!account.gas_meter && !account.electric_meter) {
+			errors.push(`${where} needs a gas_meter or an electric_meter`);
+		}
+	});
+
+	if (accounts.filter(account => account.default).length > 1) {
+		errors.push('only one account can be the default');
+	}
+	return errors;
+}
+
+// Accounts from the accounts file, or the configured single account when the file doesn't exist
+export function loadAccounts(config: Config): Account[] {
+	const filename = config.accounts_file;
+	if (!fs.existsSync(filename)) {
+		return [accountFromConfig(config)];
+	}
+
+	const accounts: Account[] = JSON.parse(fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, ''));
+	const errors = validateAccounts(accounts);
+	if (errors.length > 0) {
+		throw new Error(`Invalid accounts file ${filename}: ${errors.join('; ')}`);
+	}
+
+	const default_account = accounts.find(account => account.default) ?? accounts[0];
+	return accounts.map(account => ({
+		...account,
+		account_number: account.account_number.trim(),
+		gas_meter: account.gas_meter?.trim() || undefined,
+		electric_meter: account.electric_meter?.trim() || undefined,
+		default: account === default_account
+	}));
+}
+
+export function defaultAccount(accounts: Account[]): Account {
+	return accounts.find(account => account.default) ?? accounts[0];
+}
+
+// Where an account's history and export files live
+export function accountDataDir(data_dir: string, account: Account): string {
+	return account.default ? data_dir : path.join(data_dir, 'accounts', account.label);
+}
+
+export function meterFor(account: Account, serviceType: ServiceType): string | undefined {
+	return serviceType === 'GAS' ? account.gas_meter : account.electric_meter;
+}
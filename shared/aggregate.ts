@@ -0,0 +1,91 @@
+import { toStorageDate, type ServiceType } from "./storage.ts";
+import { totalCosts, type DayCost } from "./tariff.ts";
+
+// Usage summaries by day, week, month or year. The collector's monthly export and the
+// server's `aggregate=` queries both come from here, so they always agree.
+
+export type AggregatePeriod = 'day' | 'week' | 'month' | 'year';
+
+export const AGGREGATE_PERIODS: AggregatePeriod[] = ['day', 'week', 'month', 'year'];
+
+// Key of the period containing a YYYY-MM-DD date. Weeks start on Monday and are keyed by that Monday.
+export function periodKey(iso_date: string, period: AggregatePeriod): string {
+	switch (period) {
+		case 'day':
+			return iso_date;
+		case 'week': {
+			const date = new Date(Date.UTC(+iso_date.slice(0, 4), +iso_date.slice(5, 7) - 1, +iso_date.slice(8, 10)));
+			date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+			return date.toISOString().slice(0, 10);
+		}
+		case 'month':
+			return iso_date.slice(0, 7);
+		case 'year':
+			return iso_date.slice(0, 4);
+	}
+}
+
+function round(value: number): number {
+	return parseFloat(value.toFixed(3));
+}
+
+// Totals and daily averages per period, oldest first. Summaries carry the period key under the
+// period's name (`month: "2025-01"`, `week: "2025-01-06"`, ...). When `costs` (from
+// TariffEngine.priceDays) are given, each summary also gets cost_estimate and cost_breakdown.
+export function aggregateUsage(records: any[], serviceType: ServiceType, period: AggregatePeriod, costs?: DayCost[]): any[] {
+	const summaries = new Map<string, any>();
+	const period_costs = new Map<string, DayCost[]>();
+	const cost_by_date = new Map((costs ?? []).map(cost => [cost.date, cost]));
+
+	for (const record of records) {
+		const key = periodKey(toStorageDate(record.date), period);
+
+		if (!summaries.has(key)) {
+			summaries.set(key, serviceType === 'GAS'
+				? { [period]: key, total_ccf: 0, total_therms: 0, days: 0, average_daily_ccf: 0, average_daily_therms: 0 }
+				: { [period]: key, total_kwh: 0, days: 0, average_daily_kwh: 0 });
+		}
+
+		const summary = summaries.get(key);
+		if (serviceType === 'GAS') {
+			summary.total_ccf += record.usage_ccf;
+			summary.total_therms += record.usage_therms;
+		} else {
+			summary.total_kwh += record.usage_kwh;
+		}
+		summary.days += 1;
+
+		const cost = cost_by_date.get(record.date);
+		if (cost) {
+			if (!period_costs.has(key)) {
+				period_costs.set(key, []);
+			}
+			period_costs.get(key)!.push(cost);
+		}
+	}
+
+	for (const [key, summary] of summaries) {
+		if (serviceType === 'GAS') {
+			summary.average_daily_ccf = round(summary.total_ccf / summary.days);
+			summary.average_daily_therms = round(summary.total_therms / summary.days);
+			summary.total_ccf = round(summary.total_ccf);
+			summary.total_therms = round(summary.total_therms);
+		} else {
+			summary.average_daily_kwh = round(summary.total_kwh / summary.days);
+			summary.total_kwh = round(summary.total_kwh);
+		}
+
+		if (costs) {
+			const cost_totals = totalCosts(period_costs.get(key) ?? []);
+			summary.cost_estimate = cost_totals.total;
+			summary.cost_breakdown = {
+				energy: cost_totals.energy,
+				customer_charge: cost_totals.customer_charge,
+				riders: cost_totals.riders,
+				taxes: cost_totals.taxes
+			};
+		}
+	}
+
+	return [...summaries.values()].sort((a, b) => a[period].localeCompare(b[period]));
+}
@@ -0,0 +1,152 @@
+import { toStorageDate, type ServiceType } from "./storage.ts";
+import { addDays } from "./gaps.ts";
+import type { Config } from "./config.ts";
+
+// Usage anomalies, e.g. a stuck water heater or a gas leak. Each day is compared with baselines
+// from the days before it: the median of the previous baseline_days days, the median of the
+// same weekday over the previous weeks, and for gas the average Duke sends with each reading
+// (Series2, stored as average_ccf). A day is flagged when it exceeds every baseline it has by
+// `threshold` times and by at least the service's min_increase, so a weekly pattern (a busy
+// Saturday) or a household that always uses more than Duke's average doesn't alert on its own.
+
+export type AlertSeverity = 'warning' | 'critical';
+
+export type AlertRule = 'rolling_median' | 'weekday' | 'duke_average';
+
+export type AlertCheck = {
+	rule: AlertRule;
+	baseline: number;
+	// usage / baseline; null when the baseline is zero
+	ratio: number | null;
+};
+
+export type UsageAlert = {
+	service: ServiceType;
+	// YYYY-MM-DD
+	date: string;
+	usage: number;
+	unit: string;
+	severity: AlertSeverity;
+	reason: string;
+	// Every baseline the day was compared with
+	checks: AlertCheck[];
+};
+
+export type AnomalyOptions = {
+	threshold: number;
+	// Flagged days at this ratio or more over every baseline (zero baselines included) are critical
+	critical_threshold: number;
+	baseline_days: number;
+	// Smallest increase over a baseline worth flagging (CCF for gas, kWh for electric)
+	min_increase: number;
+	// Days to check (YYYY-MM-DD, inclusive); the baselines still use the days before them
+	from?: string;
+	to?: string;
+};
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['warning', 'critical'];
+
+// Previous weeks that make up the same-weekday baseline
+const WEEKDAY_WEEKS = 4;
+
+// Fewest readings for a weekday baseline (the rolling median needs half its window)
+const MIN_WEEKDAY_SAMPLES = 3;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function median(values: number[]): number | null {
+	if (values.length === 0) {
+		return null;
+	}
+	const sorted = [...values].sort((a, b) => a - b);
+	const middle = Math.floor(sorted.length / 2);
+	return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// One service's options from the alerts section of the configuration
+export function anomalyOptions(alerts: Config['alerts'], serviceType: ServiceType): AnomalyOptions {
+	return {
+		threshold: alerts.threshold,
+		critical_threshold: alerts.critical_threshold,
+		baseline_days: alerts.baseline_days,
+		min_increase: serviceType === 'GAS' ? alerts.min_increase.gas : alerts.min_increase.electric
+	};
+}
+
+function round(value: number, digits: number): number {
+	return parseFloat(value.toFixed(digits));
+}
+
+function usageOf(record: any, serviceType: ServiceType): number | null {
+	const value = serviceType === 'GAS' ? record?.usage_ccf : record?.usage_kwh;
+	return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function weekdayOf(date: string): number {
+	return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Flagged days in the history, newest first
+export function detectAnomalies(records: any[], serviceType: ServiceType, options: AnomalyOptions): UsageAlert[] {
+	const by_date = new Map<string, any>(records.map(record => [toStorageDate(record.date), record]));
+	const unit = serviceType === 'GAS' ? 'CCF' : 'kWh';
+	const usagesOn = (dates: string[]) => dates.map(date => usageOf(by_date.get(date), serviceType)).filter((usage): usage is number => usage !== null);
+	const alerts: UsageAlert[] = [];
+
+	for (const date of [...by_date.keys()].sort()) {
+		if ((options.from && date < options.from) || (options.to && date > options.to)) {
+			continue;
+		}
+		const record = by_date.get(date);
+		const usage = usageOf(record, serviceType);
+		if (usage === null) {
+			continue;
+		}
+
+		const baselines: { rule: AlertRule; baseline: number | null; label: string }[] = [];
+
+		const rolling = usagesOn(Array.from({ length: options.baseline_days }, (_, index) => addDays(date, -1 - index)));
+		baselines.push({
+			rule: 'rolling_median',
+			baseline: rolling.length >= Math.ceil(options.baseline_days / 2) ? median(rolling) : null,
+			label: `the ${options.baseline_days}-day median`
+		});
+
+		const weekdays = usagesOn(Array.from({ length: WEEKDAY_WEEKS }, (_, index) => addDays(date, -7 * (index + 1))));
+		baselines.push({
+			rule: 'weekday',
+			baseline: weekdays.length >= MIN_WEEKDAY_SAMPLES ? median(weekdays) : null,
+			label: `the ${WEEKDAYS[weekdayOf(date)]} median`
+		});
+
+		// Duke sends 0 when it has no average for the day
+		if (serviceType === 'GAS' && typeof record.average_ccf === 'number' && record.average_ccf > 0) {
+			baselines.push({ rule: 'duke_average', baseline: record.average_ccf, label: "Duke's average" });
+		}
+
+		const available = baselines.filter((entry): entry is { rule: AlertRule; baseline: number; label: string } => entry.baseline !== null);
+		const exceeded = (baseline: number) => usage - baseline >= options.min_increase && usage >= baseline * options.threshold;
+		if (available.length === 0 || !available.every(({ baseline }) => exceeded(baseline))) {
+			continue;
+		}
+
+		const checks: AlertCheck[] = available.map(({ rule, baseline }) => ({
+			rule,
+			baseline: round(baseline, 3),
+			ratio: baseline > 0 ? round(usage / baseline, 2) : null
+		}));
+		const reasons = checks.map((check, index) => `${check.ratio === null ? 'above' : `${check.ratio}x`} ${available[index].label} (${check.baseline} ${unit})`);
+
+		alerts.push({
+			service: serviceType,
+			date,
+			usage,
+			unit,
+			severity: checks.every(check => check.ratio === null || check.ratio >= options.critical_threshold) ? 'critical' : 'warning',
+			reason: `${usage} ${unit} is ${reasons.join('; ')}`,
+			checks
+		});
+	}
+
+	return alerts.reverse();
+}
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import fs from "fs";
+import type { Config } from "./config.ts";
+
+// Optional API keys for the data server. Without any, every route is open as before. A key
+// comes from server.api_key (every scope) or the API keys file, a JSON array of
+// { "name", "key", "scopes" } objects. Clients send it as "Authorization: Bearer <key>" or
+// "X-API-Key: <key>".
+
+// summary: usage, costs and status; raw: Duke's raw payloads; metrics: /metrics;
+// files: /files, which lists server paths
+export type ApiScope = 'summary' | 'raw' | 'metrics' | 'files';
+
+export const API_SCOPES: ApiScope[] = ['summary', 'raw', 'metrics', 'files'];
+
+export type ApiKey = {
+	// Identifies the key in error messages without showing it
+	name: string;
+	key: string;
+	scopes: ApiScope[];
+};
+
+// Shortest accepted key, so a placeholder like "changeme" can't be used
+export const MIN_API_KEY_LENGTH = 16;
+
+// "*" in a key's scopes grants all of them
+export function validateApiKeys(keys: any[]): string[] {
+	const errors: string[] = [];
+	if (!Array.isArray(keys)) {
+		return ['API keys must be an array'];
+	}
+
+	const names = new Set<string>();
+	const values = new Set<string>();
+	keys.forEach((entry, index) => {
+		const where = `keys[${index}]`;
+		if (typeof entry?.name !== 'string' || !entry.name.trim()) {
+			errors.push(`${where}.name is required`);
+		} else if (names.has(entry.name)) {
+			errors.push(`${where}.name "${entry.name}" is used twice`);
+		}
+		names.add(entry?.name);
+
+		if (typeof entry?.key !== 'string' || entry.key.length < MIN_API_KEY_LENGTH) {
+			errors.push(`${where}.key must be at least ${MIN_API_KEY_LENGTH} characters`);
+		} else if (values.has(entry.key)) {
+			errors.push(`${where}.key is the same as another key's`);
+		}
+		values.add(entry?.key);
+
+		if (!Array.isArray(entry?.scopes) || entry.scopes.length === 0) {
+			errors.push(`${where}.scopes must be a non-empty array`);
+		} else {
+			for (const scope of entry.scopes.filter((scope: any) => scope !== '*' && !API_SCOPES.includes(scope))) {
+				errors.push(`${where}.scopes has unknown scope "${scope}" (use ${API_SCOPES.join(', ')} or *)`);
+			}
+		}
+	});
+	return errors;
+}
+
+// Keys from server.api_key and the API keys file; an empty list means authentication is off
+export function loadApiKeys(config: Config): ApiKey[] {
+	const keys: ApiKey[] = config.server.api_key ? [{ name: 'api_key', key: config.server.api_key, scopes: [...API_SCOPES] }] : [];
+	const filename = config.server.api_keys_file;
+	if (!fs.existsSync(filename)) {
+		return keys;
+	}
+
+	const entries = JSON.parse(fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, ''));
+	const errors = validateApiKeys(entries);
+	if (errors.length > 0) {
+		throw new Error(`Invalid API keys file ${filename}: ${errors.join('; ')}`);
+	}
+
+	return [...keys, ...entries.map((entry: any) => ({
+		name: entry.name,
+		key: entry.key,
+		scopes: entry.scopes.includes('*') ? [...API_SCOPES] : entry.scopes
+	}))];
+}
+
+// Account and meter numbers shown without the raw scope keep only their last four digits
+export function maskAccountNumber(account_number: string): string {
+	const visible = account_number.length > 4 ? account_number.slice(-4) : '';
+	return '*'.repeat(account_number.length - visible.length) + visible;
+}
+
+// The key a request carries, or null when it has none
+export function presentedKey(headers: Record<string, string | string[] | undefined>): string | null {
+	const authorization = headers['authorization'];
+	const bearer = typeof authorization === 'string' ? authorization.match(/^Bearer\s+(\S+)\s*$/i)?.[1] : undefined;
+	const api_key = headers['x-api-key'];
+	return bearer ?? (typeof api_key === 'string' && api_key ? api_key.trim() : null);
+}
+
+// The configured key matching `presented`. Digests are compared in constant time, so response
+// times don't give away how much of a key was right.
+export function findApiKey(keys: ApiKey[], presented: string): ApiKey | null {
+	const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+	const wanted = digest(presented);
+	return keys.find(key => crypto.timingSafeEqual(digest(key.key), wanted)) ?? null;
+}
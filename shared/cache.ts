@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import type { Transform } from "stream";
+
+// Response caching for the data server: parsed data files are kept in memory until they change,
+// responses carry strong ETags and are compressed with gzip or brotli, and Cache-Control lasts
+// until the collector is next expected to write new data.
+
+export type CachedFile<T = any> = {
+	data: T;
+	mtime: Date;
+	size: number;
+};
+
+export type ContentEncoding = 'br' | 'gzip';
+
+// Smaller bodies are sent uncompressed; the headers would outweigh the saving
+export const MIN_COMPRESS_BYTES = 1024;
+
+// Compressed bodies kept for unchanged responses
+const MAX_COMPRESSED_BODIES = 64;
+
+// Cache-Control max-age bounds, in seconds. Responses are cached for at least a minute (also while
+// a collection is due or running) and at most a day.
+export const MIN_MAX_AGE = 60;
+export const MAX_MAX_AGE = 24 * 60 * 60;
+
+// max-age when the next collection can't be predicted
+export const DEFAULT_MAX_AGE = 900;
+
+// A daemon run that started longer ago than this was cut off (the process died) rather than still going
+const MAX_RUN_MS = 2 * 60 * 60 * 1000;
+
+// The times the collector's daemon mode keeps in scheduler-state.json
+export type SchedulerTimes = {
+	next_run?: string;
+	last_run_started?: string;
+	last_run_finished?: string;
+};
+
+// A file caught between writeFileSync's truncate and its write doesn't parse; it is read again
+// this many times, this far apart (without blocking other requests), before the error is passed on
+const PARSE_RETRIES = 3;
+const PARSE_RETRY_MS = 25;
+
+type CacheEntry = CachedFile & {
+	// Set by the watcher; the next read reloads without comparing mtime and size
+	stale: boolean;
+};
+
+// Parsed files by path. Every hit compares the file's mtime and size with the cached copy, since
+// change events don't always cross a bind mount (e.g. Docker on Windows). A directory is also
+// watched once a file in it is read, so a change the watcher sees is picked up even when the
+// rewrite kept the size and mtime. Files in directories that can't be watched are still cached.
+export class DataFileCache {
+	private entries = new Map<string, CacheEntry>();
+	private watchers = new Map<string, fs.FSWatcher>();
+
+	// The parsed file, or null when it doesn't exist. Each file must always be read with the same parser.
+	async read<T = any>(filename: string, parse: (text: string) => T = JSON.parse): Promise<CachedFile<T> | null> {
+		const key = path.resolve(filename);
+		if (!fs.existsSync(key)) {
+			this.entries.delete(key);
+			return null;
+		}
+
+		const cached = this.entries.get(key);
+		const stats = fs.statSync(key);
+		if (cached && !cached.stale && cached.mtime.getTime() === stats.mtime.getTime() && cached.size === stats.size) {
+			return cached;
+		}
+
+		// Watch before reading, so a write that lands while the file is read still marks it stale
+		this.watch(path.dirname(key));
+		for (let attempt = 0; ; attempt++) {
+			try {
+				const current = attempt === 0 ? stats : fs.statSync(key);
+				const entry: CacheEntry = {
+					// Files written on Windows may start with a BOM
+					data: parse(fs.readFileSync(key, 'utf8').replace(/^\uFEFF/, '')),
+					mtime: current.mtime,
+					size: current.size,
+					stale: false
+				};
+				this.entries.set(key, entry);
+				return entry;
+			} catch (error) {
+				// Half written: serve the previous version (left stale, so the next read tries again)
+				if (cached) {
+					cached.stale = true;
+					return cached;
+				}
+				if (attempt >= PARSE_RETRIES) {
+					throw error;
+				}
+				await new Promise(resolve => setTimeout(resolve, PARSE_RETRY_MS));
+			}
+		}
+	}
+
+	close(): void {
+		for (const watcher of this.watchers.values()) {
+			watcher.close();
+		}
+		this.watchers.clear();
+		this.entries.clear();
+	}
+
+	private watch(directory: string): void {
+		if (this.watchers.has(directory)) {
+			return;
+		}
+
+		try {
+			const watcher = fs.watch(directory, { persistent: false }, (event, filename) => {
+				const entry = filename ? this.entries.get(path.join(directory, String(filename))) : undefined;
+				if (entry) {
+					entry.stale = true;
+				} else if (!filename) {
+					this.markStale(directory);
+				}
+			});
+			// e.g. the directory was removed; it is watched again on the next read
+			watcher.on('error', () => {
+				watcher.close();
+				this.watchers.delete(directory);
+				this.markStale(directory);
+			});
+			this.watchers.set(directory, watcher);
+		} catch {
+			// Unwatchable (e.g. some network shares): the mtime and size checks still apply
+		}
+	}
+
+	private markStale(directory: string): void {
+		for (const [key, entry] of this.entries) {
+			if (path.dirname(key) === directory) {
+				entry.stale = true;
+			}
+		}
+	}
+}
+
+// Strong ETag of the identity (uncompressed) body
+export function etagFor(body: string | Buffer): string {
+	return `"${crypto.createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// Compressed bodies get their own ETag, as a strong validator must differ between encodings
+export function encodedEtag(etag: string, encoding: ContentEncoding): string {
+	return etag.replace(/"$/, `-${encoding}"`);
+}
+
+// The ETag without a weak prefix or encoding suffix, so a tag from any encoding matches
+function opaqueTag(tag: string): string {
+	return tag.trim().replace(/^W\//, '').replace(/-(?:br|gzip)"$/, '"');
+}
+
+// Whether the client's copy is current. If-None-Match takes precedence; If-Modified-Since is only
+// used without it and with a Last-Modified date (HTTP dates have whole seconds).
+export function notModified(headers: Record<string, string | string[] | undefined>, etag: string, last_modified?: string): boolean {
+	const if_none_match = headers['if-none-match'];
+	if (typeof if_none_match === 'string') {
+		return if_none_match.trim() === '*' || if_none_match.split(',').some(tag => opaqueTag(tag) === opaqueTag(etag));
+	}
+
+	const if_modified_since = headers['if-modified-since'];
+	if (typeof if_modified_since !== 'string' || !last_modified) {
+		return false;
+	}
+	const since = Date.parse(if_modified_since);
+	const modified = Date.parse(last_modified);
+	return !Number.isNaN(since) && !Number.isNaN(modified) && Math.floor(modified / 1000) <= Math.floor(since / 1000);
+}
+
+// The client's preferred encoding from Accept-Encoding, brotli on a tie; null for identity
+export function negotiateEncoding(accept_encoding: string | string[] | undefined): ContentEncoding | null {
+	if (typeof accept_encoding !== 'string') {
+		return null;
+	}
+
+	const weights = new Map<string, number>();
+	for (const part of accept_encoding.split(',')) {
+		const [name, ...params] = part.trim().toLowerCase().split(';');
+		const q = params.map(param => param.trim().match(/^q=([\d.]+)$/)?.[1]).find(value => value !== undefined);
+		weights.set(name.trim(), q === undefined ? 1 : parseFloat(q) || 0);
+	}
+
+	const weight = (encoding: ContentEncoding) => weights.get(encoding) ?? weights.get('*') ?? 0;
+	const best = (['br', 'gzip'] as ContentEncoding[]).reduce((a, b) => weight(b) > weight(a) ? b : a);
+	return weight(best) > 0 ? best : null;
+}
+
+export function compress(body: string | Buffer, encoding: ContentEncoding): Buffer {
+	// Quality 5 compresses JSON nearly as well as the default 11 in a fraction of the time
+	return encoding === 'br'
+		? zlib.brotliCompressSync(body, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+		: zlib.gzipSync(body);
+}
+
+export function compressStream(encoding: ContentEncoding): Transform {
+	return encoding === 'br'
+		? zlib.createBrotliCompress({ params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+		: zlib.createGzip();
+}
+
+// Compressed bodies by ETag and encoding, so an unchanged file is compressed once per encoding
+// rather than on every poll. The least recently used body is dropped first.
+export class CompressedBodies {
+	private bodies = new Map<string, Buffer>();
+
+	get(etag: string, encoding: ContentEncoding, body: string | Buffer): Buffer {
+		const key = `${encoding} ${etag}`;
+		const compressed = this.bodies.get(key) ?? compress(body, encoding);
+		this.bodies.delete(key);
+		this.bodies.set(key, compressed);
+		if (this.bodies.size > MAX_COMPRESSED_BODIES) {
+			this.bodies.delete(this.bodies.keys().next().value!);
+		}
+		return compressed;
+	}
+}
+
+// When fresh data can next be expected: now while a daemon run is in progress, the daemon's next
+// run, or else `expected` (e.g. from the run log). null when unknown.
+export function nextCollection(state: SchedulerTimes | null, expected: Date | null, now = new Date()): Date | null {
+	const started = state?.last_run_started;
+	const running = started && (!state?.last_run_finished || state.last_run_finished < started);
+	if (running && now.getTime() - new Date(started).getTime() < MAX_RUN_MS) {
+		return now;
+	}
+
+	const next_run = state?.next_run ? new Date(state.next_run) : null;
+	if (next_run && next_run > now) {
+		return next_run;
+	}
+	return expected;
+}
+
+// Responses stay fresh until the next collection, within MIN_MAX_AGE and MAX_MAX_AGE. Once a
+// collection is due they are rechecked every minute until it has written new data. Responses to
+// API key holders are private, so shared caches don't hand them to callers without the key.
+export function cacheControl(next_collection: Date | null, authenticated = false, now = new Date()): string {
+	const visibility = authenticated ? 'private' : 'public';
+	if (!next_collection) {
+		return `${visibility}, max-age=${DEFAULT_MAX_AGE}`;
+	}
+	const seconds = Math.round((next_collection.getTime() - now.getTime()) / 1000);
+	return `${visibility}, max-age=${Math.min(MAX_MAX_AGE, Math.max(MIN_MAX_AGE, seconds))}`;
+}
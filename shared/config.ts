@@ -0,0 +1,360 @@
+import fs from "fs";
+import path from "path";
+import type { StorageBackend } from "./storage.ts";
+import type { TemperatureUnits } from "./weather.ts";
+import { MIN_API_KEY_LENGTH } from "./auth.ts";
+
+// Settings shared by the collector and the server. They come from config.json in the project
+// root (CONFIG_FILE overrides), with environment variables taking precedence over the file.
+// Relative paths in the file are resolved against the file's directory, and relative paths in
+// environment variables against the program's own directory (collector/ or server/), so the
+// working directory a program is started from doesn't matter.
+
+export type Config = {
+	// The config file that was read, or null when there is none
+	file: string | null;
+	data_dir: string;
+	// Duke Energy sign-in (best kept in .env rather than the file)
+	email: string;
+	password: string;
+	// The single account used when there is no accounts file
+	account: {
+		account_number: string;
+		gas_meter: string;
+		electric_meter: string;
+	};
+	storage: {
+		backend: StorageBackend;
+		sqlite_path: string;
+		// Days of daily history kept; 0 keeps everything
+		history_retention_days: number;
+	};
+	electric_intervals: {
+		enabled: boolean;
+		frequency: string;
+		retention_days: number;
+	};
+	exports: {
+		// Window of the duke-<service>-recent.json exports
+		recent_days: number;
+		// Gas heat content used for usage_therms
+		therms_per_ccf: number;
+	};
+	// '' prices with tariff.json in the data directory (or an account's own directory)
+	tariff_file: string;
+	accounts_file: string;
+	// Day of month the meter-read cycle starts on (0 = only use known read dates)
+	billing_cycle_day: number;
+	gaps: {
+		// Re-request missing days older than the regular request before it runs
+		refetch: boolean;
+		// How far back gaps are refetched
+		lookback_days: number;
+		// Answered requests per missing day before it is left as a gap
+		max_attempts: number;
+	};
+	alerts: {
+		// Flag a day at this many times a baseline, and call it critical at critical_threshold
+		threshold: number;
+		critical_threshold: number;
+		// Days in the rolling median baseline
+		baseline_days: number;
+		// Smallest increase over a baseline worth flagging, so near-zero baselines don't alert
+		min_increase: {
+			gas: number;
+			electric: number;
+		};
+	};
+	weather: {
+		// Daily temperatures (CSV or JSON, e.g. a NOAA daily export); defaults to <data_dir>/weather.csv
+		file: string;
+		units: TemperatureUnits;
+		// Degree days are counted from this mean temperature; 65 (F) or 18 (C) unless set
+		balance_point: number;
+	};
+	status: {
+		// /status and /health report degraded when the last successful run is older than this
+		stale_after_hours: number;
+	};
+	server: {
+		port: number;
+		host: string;
+		// A key with every scope; '' leaves only the API keys file's keys (none turns authentication off)
+		api_key: string;
+		// Defaults to <data_dir>/api-keys.json
+		api_keys_file: string;
+		// Origins browsers may read responses from; '*' allows any
+		cors_origins: string[];
+		// Show absolute data directory and file paths in /, /health, /accounts and /files
+		expose_paths: boolean;
+	};
+};
+
+// list: a JSON array in the file, comma-separated in the environment
+type SettingType = 'string' | 'path' | 'integer' | 'number' | 'boolean' | 'enum' | 'list';
+
+type Setting = {
+	// Dotted key in the config file
+	key: string;
+	env: string;
+	type: SettingType;
+	values?: string[];
+	min?: number;
+	max?: number;
+};
+
+// Project root (the directory holding collector/, server/ and shared/)
+export const PROJECT_ROOT = path.resolve(import.meta.dir, '..');
+
+export const DEFAULT_CONFIG_FILE = path.join(PROJECT_ROOT, 'config.json');
+
+const SETTINGS: Setting[] = [
+	{ key: 'data_dir', env: 'DATA_DIRECTORY', type: 'path' },
+	{ key: 'email', env: 'EMAIL', type: 'string' },
+	{ key: 'password', env: 'PASSWORD', type: 'string' },
+	{ key: 'account.account_number', env: 'ACCOUNTNUM', type: 'string' },
+	{ key: 'account.gas_meter', env: 'GAS_METERNUM', type: 'string' },
+	{ key: 'account.electric_meter', env: 'ELECTRIC_METERNUM', type: 'string' },
+	{ key: 'storage.backend', env: 'STORAGE_BACKEND', type: 'enum', values: ['json', 'sqlite'] },
+	{ key: 'storage.sqlite_path', env: 'SQLITE_PATH', type: 'path' },
+	{ key: 'storage.history_retention_days', env: 'HISTORY_RETENTION_DAYS', type: 'integer', min: 0 },
+	{ key: 'electric_intervals.enabled', env: 'ELECTRIC_INTERVALS', type: 'boolean' },
+	{ key: 'electric_intervals.frequency', env: 'ELECTRIC_INTERVAL_FREQUENCY', type: 'string' },
+	{ key: 'electric_intervals.retention_days', env: 'ELECTRIC_INTERVAL_RETENTION_DAYS', type: 'integer', min: 0 },
+	{ key: 'exports.recent_days', env: 'RECENT_DAYS', type: 'integer', min: 1 },
+	{ key: 'exports.therms_per_ccf', env: 'THERMS_PER_CCF', type: 'number', min: 0.5, max: 2 },
+	{ key: 'tariff_file', env: 'TARIFF_FILE', type: 'path' },
+	{ key: 'accounts_file', env: 'ACCOUNTS_FILE', type: 'path' },
+	{ key: 'billing_cycle_day', env: 'BILLING_CYCLE_DAY', type: 'integer', min: 0, max: 31 },
+	{ key: 'gaps.refetch', env: 'GAP_REFETCH', type: 'boolean' },
+	{ key: 'gaps.lookback_days', env: 'GAP_LOOKBACK_DAYS', type: 'integer', min: 1 },
+	{ key: 'gaps.max_attempts', env: 'GAP_MAX_ATTEMPTS', type: 'integer', min: 1 },
+	{ key: 'alerts.threshold', env: 'ALERT_THRESHOLD', type: 'number', min: 1 },
+	{ key: 'alerts.critical_threshold', env: 'ALERT_CRITICAL_THRESHOLD', type: 'number', min: 1 },
+	{ key: 'alerts.baseline_days', env: 'ALERT_BASELINE_DAYS', type: 'integer', min: 2, max: 365 },
+	{ key: 'alerts.min_increase.gas', env: 'ALERT_MIN_INCREASE_CCF', type: 'number', min: 0 },
+	{ key: 'alerts.min_increase.electric', env: 'ALERT_MIN_INCREASE_KWH', type: 'number', min: 0 },
+	{ key: 'weather.file', env: 'WEATHER_FILE', type: 'path' },
+	{ key: 'weather.units', env: 'WEATHER_UNITS', type: 'enum', values: ['F', 'C'] },
+	{ key: 'weather.balance_point', env: 'WEATHER_BALANCE_POINT', type: 'number', min: -50, max: 120 },
+	{ key: 'status.stale_after_hours', env: 'STATUS_STALE_HOURS', type: 'number', min: 1 },
+	{ key: 'server.port', env: 'PORT', type: 'integer', min: 1, max: 65535 },
+	{ key: 'server.host', env: 'HOST', type: 'string' },
+	{ key: 'server.api_key', env: 'API_KEY', type: 'string' },
+	{ key: 'server.api_keys_file', env: 'API_KEYS_FILE', type: 'path' },
+	{ key: 'server.cors_origins', env: 'CORS_ORIGINS', type: 'list' },
+	{ key: 'server.expose_paths', env: 'EXPOSE_PATHS', type: 'boolean' }
+];
+
+// Paths left empty here are derived from data_dir once it is known, and the balance point from the units
+const DEFAULTS: Omit<Config, 'file'> = {
+	data_dir: path.join(PROJECT_ROOT, 'data'),
+	email: '',
+	password: '',
+	account: { account_number: '', gas_meter: '', electric_meter: '' },
+	storage: { backend: 'json', sqlite_path: '', history_retention_days: 730 },
+	electric_intervals: { enabled: false, frequency: 'quarterHourlyEnergy', retention_days: 90 },
+	exports: { recent_days: 30, therms_per_ccf: 1.037 },
+	tariff_file: '',
+	accounts_file: '',
+	billing_cycle_day: 0,
+	gaps: { refetch: true, lookback_days: 90, max_attempts: 3 },
+	alerts: { threshold: 2, critical_threshold: 3, baseline_days: 14, min_increase: { gas: 1, electric: 10 } },
+	weather: { file: '', units: 'F', balance_point: 0 },
+	status: { stale_after_hours: 26 },
+	server: { port: 3000, host: '0.0.0.0', api_key: '', api_keys_file: '', cors_origins: ['*'], expose_paths: true }
+};
+
+// Every problem found while loading, one per line
+export class ConfigError extends Error {
+	errors: string[];
+
+	constructor(source: string, errors: string[]) {
+		super(`Invalid configuration (${source}):\n${errors.map(error => `  - ${error}`).join('\n')}`);
+		this.name = 'ConfigError';
+		this.errors = errors;
+	}
+}
+
+function getKey(object: any, key: string): any {
+	return key.split('.').reduce((value, part) => value?.[part], object);
+}
+
+function setKey(object: any, key: string, value: any): void {
+	const parts = key.split('.');
+	const parent = parts.slice(0, -1).reduce((value, part) => value[part], object);
+	parent[parts[parts.length - 1]] = value;
+}
+
+// Keys in the file that aren't settings, e.g. a misspelt "storage.backnd"
+function unknownKeys(object: any, defaults: any, prefix = ''): string[] {
+	return Object.keys(object).flatMap(name => {
+		const key = `${prefix}${name}`;
+		if (!(name in defaults)) {
+			return [key];
+		}
+		const is_section = typeof defaults[name] === 'object' && defaults[name] !== null && !Array.isArray(defaults[name]);
+		return is_section && typeof object[name] === 'object' && object[name] !== null ? unknownKeys(object[name], defaults[name], `${key}.`) : [];
+	});
+}
+
+// Convert a file or environment value to the setting's type; returns an error message on failure
+function parseSetting(setting: Setting, raw: unknown, from_env: boolean, base_dir: string): { value: any } | { error: string } {
+	const where = from_env ? `${setting.key} (${setting.env}=${JSON.stringify(raw)})` : `${setting.key} (${JSON.stringify(raw)})`;
+
+	switch (setting.type) {
+		case 'string':
+		case 'path': {
+			if (typeof raw !== 'string') {
+				return { error: `${where} must be a string` };
+			}
+			const value = raw.trim();
+			return { value: setting.type === 'path' && value ? path.resolve(base_dir, value) : value };
+		}
+		case 'boolean': {
+			if (typeof raw === 'boolean') {
+				return { value: raw };
+			}
+			if (raw === 'true' || raw === 'false') {
+				return { value: raw === 'true' };
+			}
+			return { error: `${where} must be true or false` };
+		}
+		case 'enum': {
+			if (typeof raw !== 'string' || !setting.values!.includes(raw)) {
+				return { error: `${where} must be one of ${setting.values!.join(', ')}` };
+			}
+			return { value: raw };
+		}
+		case 'list': {
+			const values = typeof raw === 'string' && from_env ? raw.split(',') : raw;
+			if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+				return { error: `${where} must be ${from_env ? 'a comma-separated list' : 'an array of strings'}` };
+			}
+			return { value: values.map(value => value.trim()).filter(Boolean) };
+		}
+		case 'integer':
+		case 'number': {
+			const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+			if (typeof value !== 'number' || !Number.isFinite(value) || (setting.type === 'integer' && !Number.isInteger(value))) {
+				return { error: `${where} must be a ${setting.type === 'integer' ? 'whole number' : 'number'}` };
+			}
+			if ((setting.min !== undefined && value < setting.min) || (setting.max !== undefined && value > setting.max)) {
+				const range = setting.max === undefined ? `at least ${setting.min}` : `between ${setting.min} and ${setting.max}`;
+				return { error: `${where} must be ${range}` };
+			}
+			return { value };
+		}
+	}
+}
+
+export type LoadConfigOptions = {
+	// Defaults to CONFIG_FILE, then config.json in the project root
+	file?: string;
+	env?: NodeJS.ProcessEnv;
+	// Where relative paths from the environment point from; defaults to the working directory
+	base_dir?: string;
+	// A --data-dir flag; overrides the file and DATA_DIRECTORY
+	data_dir?: string;
+};
+
+// Load, override and validate the configuration. Throws a ConfigError listing every invalid
+// setting. A missing config file is fine (defaults and environment only) unless one was named.
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+	const env = options.env ?? process.env;
+	const named = options.file || env.CONFIG_FILE;
+	const file = options.file ? path.resolve(options.file) : env.CONFIG_FILE ? path.resolve(options.base_dir ?? process.cwd(), env.CONFIG_FILE) : DEFAULT_CONFIG_FILE;
+	const errors: string[] = [];
+
+	let contents: any = {};
+	const exists = fs.existsSync(file);
+	if (exists) {
+		try {
+			contents = JSON.parse(fs.readFileSync(file, 'utf8').replace(/^\uFEFF/, ''));
+		} catch (error) {
+			throw new ConfigError(file, [`not valid JSON: ${error instanceof Error ? error.message : error}`]);
+		}
+		if (typeof contents !== 'object' || contents === null || Array.isArray(contents)) {
+			throw new ConfigError(file, ['the file must contain a JSON object']);
+		}
+		for (const key of unknownKeys(contents, DEFAULTS)) {
+			errors.push(`unknown setting "${key}"`);
+		}
+	} else if (named) {
+		throw new ConfigError(file, ['file not found']);
+	}
+
+	const config: Config = { file: exists ? file : null, ...structuredClone(DEFAULTS) };
+	const provided = new Set<string>();
+	for (const setting of SETTINGS) {
+		const env_value = env[setting.env];
+		const from_env = env_value !== undefined && env_value !== '';
+		const raw = from_env ? env_value : getKey(contents, setting.key);
+		if (raw === undefined || raw === null) {
+			continue;
+		}
+
+		const parsed = parseSetting(setting, raw, from_env, from_env ? options.base_dir ?? process.cwd() : path.dirname(file));
+		if ('error' in parsed) {
+			errors.push(parsed.error);
+		} else {
+			setKey(config, setting.key, parsed.value);
+			provided.add(setting.key);
+		}
+	}
+
+	if (options.data_dir) {
+		config.data_dir = path.resolve(options.data_dir);
+	}
+	if (!config.electric_intervals.frequency) {
+		errors.push('electric_intervals.frequency must not be empty');
+	}
+	if (config.alerts.critical_threshold < config.alerts.threshold) {
+		errors.push(`alerts.critical_threshold (${config.alerts.critical_threshold}) must not be below alerts.threshold (${config.alerts.threshold})`);
+	}
+
+	if (config.server.api_key && config.server.api_key.length < MIN_API_KEY_LENGTH) {
+		errors.push(`server.api_key must be at least ${MIN_API_KEY_LENGTH} characters`);
+	}
+	for (const origin of config.server.cors_origins.filter(origin => origin !== '*' && !/^https?:\/\/[^/\s]+$/.test(origin))) {
+		errors.push(`server.cors_origins entry "${origin}" must be "*" or an origin like https://example.com:8123`);
+	}
+
+	if (errors.length > 0) {
+		throw new ConfigError(exists ? file : 'environment', errors);
+	}
+
+	config.storage.sqlite_path ||= path.join(config.data_dir, 'duke-energy.db');
+	config.accounts_file ||= path.join(config.data_dir, 'accounts.json');
+	config.weather.file ||= path.join(config.data_dir, 'weather.csv');
+	config.server.api_keys_file ||= path.join(config.data_dir, 'api-keys.json');
+	if (!provided.has('weather.balance_point')) {
+		config.weather.balance_point = config.weather.units === 'C' ? 18 : 65;
+	}
+	return config;
+}
+
+// Add KEY=value lines from an .env file to the environment without replacing variables that
+// are already set. Bun only reads .env from the working directory; this finds the collector's
+// wherever it is started from.
+export function loadEnvFile(filename: string, env: NodeJS.ProcessEnv = process.env): boolean {
+	if (!fs.existsSync(filename)) {
+		return false;
+	}
+
+	for (const line of fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, '').split(/\r?\n/)) {
+		const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+		if (!match || env[match[1]] !== undefined) {
+			continue;
+		}
+		let value = match[2];
+		const quoted = value.match(/^(["'])(.*)\1$/);
+		if (quoted) {
+			value = quoted[2];
+		} else {
+			value = value.replace(/\s+#.*$/, '');
+		}
+		env[match[1]] = value;
+	}
+	return true;
+}
@@ -0,0 +1,30 @@
+// Fields of one CSV line: quoted fields may contain commas and doubled quotes, and
+// surrounding whitespace is trimmed
+export function splitCsvLine(line: string): string[] {
+	const fields: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let index = 0; index < line.length; index++) {
+		const char = line[index];
+		if (quoted) {
+			if (char === '"' && line[index + 1] === '"') {
+				field += '"';
+				index += 1;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			fields.push(field.trim());
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	fields.push(field.trim());
+	return fields;
+}
@@ -0,0 +1,263 @@
+import crypto from "crypto";
+import { toStorageDate, type ServiceType } from "./storage.ts";
+import type { DayCost } from "./tariff.ts";
+
+// Spreadsheet (CSV) and Green Button (ESPI Atom feed) exports of the usage history. Both are
+// generators that yield the document a row at a time, so the server can stream them. CSV
+// timestamps are local time with their UTC offset; ESPI readings use UTC epoch seconds with the
+// feed's LocalTimeParameters describing the local zone.
+
+export type ExportFormat = 'csv' | 'xml';
+
+export type ExportResolution = 'day' | 'interval';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xml'];
+
+export const EXPORT_RESOLUTIONS: ExportResolution[] = ['day', 'interval'];
+
+export type ExportReading = {
+	// YYYY-MM-DD of the day the reading belongs to
+	date: string;
+	start: Date;
+	end: Date;
+	// CCF for gas, kWh for electric
+	usage: number;
+	// Gas readings only
+	therms?: number;
+	cost?: DayCost;
+};
+
+export type EspiOptions = {
+	title: string;
+	// Seeds the feed's entry ids, so exporting the same series twice gives the same ids
+	id_seed: string;
+	// Include each reading's cost (days only) in the ReadingType's currency
+	costs: boolean;
+	currency: string;
+};
+
+// ESPI enumerations (NAESB REQ.21) used in the feed
+export const ESPI = {
+	service_kind: { ELECTRIC: 0, GAS: 1 },
+	commodity: { ELECTRIC: 1, GAS: 7 },
+	// Wh for electric, therms for gas
+	uom: { ELECTRIC: 72, GAS: 169 },
+	// Readings are stored as integers: Wh, and thousandths of a therm
+	power_of_ten_multiplier: { ELECTRIC: 0, GAS: -3 },
+	kind_energy: 12,
+	accumulation_delta: 4,
+	data_qualifier_normal: 12,
+	flow_forward: 1,
+	// Costs are in hundred-thousandths of the currency unit
+	cost_scale: 100000
+} as const;
+
+// ISO 4217 numeric codes for the currencies a tariff is likely to use
+const CURRENCY_CODES: Record<string, number> = { USD: 840, CAD: 124, EUR: 978, GBP: 826 };
+
+// US daylight saving rules (second Sunday in March, first Sunday in November, 2:00) in ESPI's encoding
+const US_DST_START_RULE = '360E2000';
+const US_DST_END_RULE = 'B40E2000';
+
+const ESPI_BASE = '/espi/1_1/resource';
+
+function pad(value: number): string {
+	return Math.abs(value).toString().padStart(2, '0');
+}
+
+// Local-time ISO timestamp with the UTC offset, e.g. 2025-03-09T03:15:00-04:00
+export function offsetTimestamp(date: Date): string {
+	const offset = -date.getTimezoneOffset();
+	const sign = offset >= 0 ? '+' : '-';
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+		`${sign}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+}
+
+function localMidnight(iso_date: string, days = 0): Date {
+	return new Date(+iso_date.slice(0, 4), +iso_date.slice(5, 7) - 1, +iso_date.slice(8, 10) + days);
+}
+
+// Daily history records as readings spanning local midnight to midnight (23 or 25 hours on DST changes)
+export function dailyReadings(records: any[], serviceType: ServiceType, costs?: DayCost[]): ExportReading[] {
+	const cost_by_date = new Map((costs ?? []).map(cost => [cost.date, cost]));
+	return records
+		.map(record => {
+			const date = toStorageDate(record.date);
+			return {
+				date,
+				start: localMidnight(date),
+				end: localMidnight(date, 1),
+				usage: serviceType === 'GAS' ? record.usage_ccf : record.usage_kwh,
+				...(serviceType === 'GAS' ? { therms: record.usage_therms } : {}),
+				...(cost_by_date.has(record.date) ? { cost: cost_by_date.get(record.date) } : {})
+			};
+		})
+		.filter(reading => typeof reading.usage === 'number' && Number.isFinite(reading.usage))
+		.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Stored electric interval readings (see the collector's interval mode) on the days from `from` to
+// `to` (YYYY-MM-DD, inclusive), in the start-time order the collector keeps them in. Readings are
+// made as they are iterated, so exporting months of intervals doesn't build a second copy of them.
+export function intervalReadings(intervals: any[], from?: string, to?: string): Iterable<ExportReading> {
+	return {
+		*[Symbol.iterator]() {
+			for (const interval of intervals) {
+				const date = toStorageDate(interval.date);
+				if ((from && date < from) || (to && date > to)) {
+					continue;
+				}
+				yield { date, start: new Date(interval.start_time), end: new Date(interval.end_time), usage: interval.usage_kwh };
+			}
+		}
+	};
+}
+
+function csvField(value: string | number | null | undefined): string {
+	const text = value === null || value === undefined ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(fields: (string | number | null | undefined)[]): string {
+	return fields.map(csvField).join(',') + '\r\n';
+}
+
+// RFC 4180 CSV with a header row; cost columns are added when `costs` is set
+export function* csvExport(readings: Iterable<ExportReading>, serviceType: ServiceType, options: { costs: boolean }): Generator<string> {
+	const usage_columns = serviceType === 'GAS' ? ['usage_ccf', 'usage_therms'] : ['usage_kwh'];
+	const cost_columns = ['energy_cost', 'customer_charge', 'riders', 'taxes', 'total_cost', 'tariff'];
+	yield csvLine(['date', 'start', 'end', ...usage_columns, ...(options.costs ? cost_columns : [])]);
+
+	for (const reading of readings) {
+		const usage = serviceType === 'GAS' ? [reading.usage, reading.therms] : [reading.usage];
+		const cost = reading.cost;
+		const costs = cost ? [cost.energy, cost.customer_charge, cost.riders, cost.taxes, cost.total, cost.tariff] : cost_columns.map(() => null);
+		yield csvLine([reading.date, offsetTimestamp(reading.start), offsetTimestamp(reading.end), ...usage, ...(options.costs ? costs : [])]);
+	}
+}
+
+function xmlEscape(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Name-based UUID (SHA-1, version 5 layout) so entry ids are stable between exports
+function stableUuid(name: string): string {
+	const hex = crypto.createHash('sha1').update(name).digest('hex');
+	const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+	return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function epochSeconds(date: Date): number {
+	return Math.floor(date.getTime() / 1000);
+}
+
+// Standard-time offset and DST shift of the server's local zone, in seconds
+function localTimeParameters(year: number): { tz_offset: number; dst_offset: number } {
+	const winter = -new Date(year, 0, 1).getTimezoneOffset() * 60;
+	const summer = -new Date(year, 6, 1).getTimezoneOffset() * 60;
+	return { tz_offset: Math.min(winter, summer), dst_offset: Math.abs(summer - winter) };
+}
+
+// A Green Button feed with one UsagePoint, its LocalTimeParameters, one MeterReading with its
+// ReadingType, and one IntervalBlock holding every reading. The readings must be sorted, and are
+// iterated twice: once for the block's bounds, then to write them.
+export function* espiExport(readings: Iterable<ExportReading>, serviceType: ServiceType, options: EspiOptions): Generator<string> {
+	const updated = new Date().toISOString();
+	const usage_point = `${ESPI_BASE}/RetailCustomer/1/UsagePoint/1`;
+	const meter_reading = `${usage_point}/MeterReading/1`;
+	const entryId = (name: string) => `urn:uuid:${stableUuid(`${options.id_seed}/${name}`)}`;
+	const entry = (name: string, self: string, up: string, related: string[], title: string, content: string) =>
+		`  <entry>\n` +
+		`    <id>${entryId(name)}</id>\n` +
+		`    <link rel="self" href="${self}"/>\n` +
+		`    <link rel="up" href="${up}"/>\n` +
+		related.map(href => `    <link rel="related" href="${href}"/>\n`).join('') +
+		`    <title>${xmlEscape(title)}</title>\n` +
+		`    <content>\n${content}    </content>\n` +
+		`    <published>${updated}</published>\n` +
+		`    <updated>${updated}</updated>\n` +
+		`  </entry>\n`;
+
+	let first: ExportReading | undefined;
+	let last: ExportReading | undefined;
+	for (const reading of readings) {
+		first = first ?? reading;
+		last = reading;
+	}
+	const { tz_offset, dst_offset } = localTimeParameters((first?.start ?? new Date()).getFullYear());
+	const interval_length = first ? epochSeconds(first.end) - epochSeconds(first.start) : 86400;
+	const currency = CURRENCY_CODES[options.currency.toUpperCase()];
+	const scale = 10 ** -ESPI.power_of_ten_multiplier[serviceType];
+
+	yield `<?xml version="1.0" encoding="UTF-8"?>\n`;
+	yield `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:espi="http://naesb.org/espi">\n` +
+		`  <id>${entryId('feed')}</id>\n` +
+		`  <title>${xmlEscape(options.title)}</title>\n` +
+		`  <updated>${updated}</updated>\n`;
+
+	yield entry('UsagePoint', usage_point, `${ESPI_BASE}/RetailCustomer/1/UsagePoint`, [`${usage_point}/MeterReading`, `${ESPI_BASE}/LocalTimeParameters/1`], options.title,
+		`      <espi:UsagePoint>\n` +
+		`        <espi:ServiceCategory>\n` +
+		`          <espi:kind>${ESPI.service_kind[serviceType]}</espi:kind>\n` +
+		`        </espi:ServiceCategory>\n` +
+		`      </espi:UsagePoint>\n`);
+
+	yield entry('LocalTimeParameters', `${ESPI_BASE}/LocalTimeParameters/1`, `${ESPI_BASE}/LocalTimeParameters`, [], 'Local time',
+		`      <espi:LocalTimeParameters>\n` +
+		`        <espi:dstEndRule>${dst_offset ? US_DST_END_RULE : '00000000'}</espi:dstEndRule>\n` +
+		`        <espi:dstOffset>${dst_offset}</espi:dstOffset>\n` +
+		`        <espi:dstStartRule>${dst_offset ? US_DST_START_RULE : '00000000'}</espi:dstStartRule>\n` +
+		`        <espi:tzOffset>${tz_offset}</espi:tzOffset>\n` +
+		`      </espi:LocalTimeParameters>\n`);
+
+	yield entry('MeterReading', meter_reading, `${usage_point}/MeterReading`, [`${meter_reading}/IntervalBlock`, `${ESPI_BASE}/ReadingType/1`], 'Usage',
+		`      <espi:MeterReading/>\n`);
+
+	yield entry('ReadingType', `${ESPI_BASE}/ReadingType/1`, `${ESPI_BASE}/ReadingType`, [], 'Reading type',
+		`      <espi:ReadingType>\n` +
+		`        <espi:accumulationBehaviour>${ESPI.accumulation_delta}</espi:accumulationBehaviour>\n` +
+		`        <espi:commodity>${ESPI.commodity[serviceType]}</espi:commodity>\n` +
+		(currency ? `        <espi:currency>${currency}</espi:currency>\n` : '') +
+		`        <espi:dataQualifier>${ESPI.data_qualifier_normal}</espi:dataQualifier>\n` +
+		`        <espi:flowDirection>${ESPI.flow_forward}</espi:flowDirection>\n` +
+		`        <espi:intervalLength>${interval_length}</espi:intervalLength>\n` +
+		`        <espi:kind>${ESPI.kind_energy}</espi:kind>\n` +
+		`        <espi:powerOfTenMultiplier>${ESPI.power_of_ten_multiplier[serviceType]}</espi:powerOfTenMultiplier>\n` +
+		`        <espi:timeAttribute>0</espi:timeAttribute>\n` +
+		`        <espi:uom>${ESPI.uom[serviceType]}</espi:uom>\n` +
+		`      </espi:ReadingType>\n`);
+
+	// The IntervalBlock entry is written in pieces so its readings can be streamed
+	const block_start = first ? epochSeconds(first.start) : epochSeconds(new Date());
+	const block_duration = first && last ? epochSeconds(last.end) - block_start : 0;
+	yield `  <entry>\n` +
+		`    <id>${entryId('IntervalBlock')}</id>\n` +
+		`    <link rel="self" href="${meter_reading}/IntervalBlock/1"/>\n` +
+		`    <link rel="up" href="${meter_reading}/IntervalBlock"/>\n` +
+		`    <title>Readings</title>\n` +
+		`    <content>\n` +
+		`      <espi:IntervalBlock>\n` +
+		`        <espi:interval>\n` +
+		`          <espi:duration>${block_duration}</espi:duration>\n` +
+		`          <espi:start>${block_start}</espi:start>\n` +
+		`        </espi:interval>\n`;
+
+	for (const reading of readings) {
+		const usage = serviceType === 'GAS' ? reading.therms ?? 0 : reading.usage * 1000;
+		yield `        <espi:IntervalReading>\n` +
+			(options.costs && reading.cost ? `          <espi:cost>${Math.round(reading.cost.total * ESPI.cost_scale)}</espi:cost>\n` : '') +
+			`          <espi:timePeriod>\n` +
+			`            <espi:duration>${epochSeconds(reading.end) - epochSeconds(reading.start)}</espi:duration>\n` +
+			`            <espi:start>${epochSeconds(reading.start)}</espi:start>\n` +
+			`          </espi:timePeriod>\n` +
+			`          <espi:value>${Math.round(serviceType === 'GAS' ? usage * scale : usage)}</espi:value>\n` +
+			`        </espi:IntervalReading>\n`;
+	}
+
+	yield `      </espi:IntervalBlock>\n` +
+		`    </content>\n` +
+		`    <published>${updated}</published>\n` +
+		`    <updated>${updated}</updated>\n` +
+		`  </entry>\n` +
+		`</feed>\n`;
+}
@@ -0,0 +1,106 @@
+import { toStorageDate, type ServiceType } from "./storage.ts";
+
+// Holes in a daily usage history. A day between the first and last record is a gap when it has
+// no record, when its usage is null, or when it reads zero while the neighbouring days show the
+// meter normally reports usage (a gas meter reading zero all summer is not a gap).
+
+export type GapReason = 'missing' | 'null' | 'zero';
+
+export type Gap = {
+	// YYYY-MM-DD, inclusive
+	start: string;
+	end: string;
+	days: number;
+	reason: GapReason;
+};
+
+export type GapReport = {
+	service: ServiceType;
+	// Range that was scanned; null when there is no history
+	checked_from: string | null;
+	checked_to: string | null;
+	missing_days: number;
+	// Null and zero readings
+	suspect_days: number;
+	gaps: Gap[];
+};
+
+const USAGE_FIELDS: Record<ServiceType, string> = { GAS: 'usage_ccf', ELECTRIC: 'usage_kwh' };
+
+// Days either side of a zero reading that decide whether the meter normally reports usage
+const NEIGHBOUR_DAYS = 14;
+
+// Share of those neighbouring readings that must be above zero for a zero to be suspect
+const NONZERO_SHARE = 0.75;
+
+export function addDays(date: string, days: number): string {
+	const day = new Date(Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10) + days));
+	return day.toISOString().slice(0, 10);
+}
+
+function usageOf(record: any, serviceType: ServiceType): number | null {
+	const value = record?.[USAGE_FIELDS[serviceType]];
+	return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Scan the history between its first and last record (narrowed by from/to, YYYY-MM-DD)
+export function findGaps(records: any[], serviceType: ServiceType, options: { from?: string; to?: string } = {}): GapReport {
+	const by_date = new Map<string, any>(records.map(record => [toStorageDate(record.date), record]));
+	const dates = [...by_date.keys()].sort();
+	const report: GapReport = { service: serviceType, checked_from: null, checked_to: null, missing_days: 0, suspect_days: 0, gaps: [] };
+	if (dates.length === 0) {
+		return report;
+	}
+
+	const from = options.from && options.from > dates[0] ? options.from : dates[0];
+	const to = options.to && options.to < dates[dates.length - 1] ? options.to : dates[dates.length - 1];
+	if (from > to) {
+		return report;
+	}
+	report.checked_from = from;
+	report.checked_to = to;
+
+	const normallyReports = (date: string) => {
+		const neighbours: number[] = [];
+		for (let offset = -NEIGHBOUR_DAYS; offset <= NEIGHBOUR_DAYS; offset++) {
+			const usage = offset === 0 ? null : usageOf(by_date.get(addDays(date, offset)), serviceType);
+			if (usage !== null) {
+				neighbours.push(usage);
+			}
+		}
+		return neighbours.length > 0 && neighbours.filter(usage => usage > 0).length / neighbours.length >= NONZERO_SHARE;
+	};
+
+	for (let date = from; date <= to; date = addDays(date, 1)) {
+		const record = by_date.get(date);
+		const usage = record ? usageOf(record, serviceType) : null;
+		const reason: GapReason | null = !record ? 'missing'
+			: usage === null ? 'null'
+			: usage === 0 && normallyReports(date) ? 'zero'
+			: null;
+		if (!reason) {
+			continue;
+		}
+
+		if (reason === 'missing') {
+			report.missing_days += 1;
+		} else {
+			report.suspect_days += 1;
+		}
+
+		const last = report.gaps[report.gaps.length - 1];
+		if (last && last.reason === reason && addDays(last.end, 1) === date) {
+			last.end = date;
+			last.days += 1;
+		} else {
+			report.gaps.push({ start: date, end: date, days: 1, reason });
+		}
+	}
+
+	return report;
+}
+
+// Every date covered by the gaps, oldest first
+export function gapDates(gaps: Gap[]): string[] {
+	return gaps.flatMap(gap => Array.from({ length: gap.days }, (_, index) => addDays(gap.start, index))).sort();
+}
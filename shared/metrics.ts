@@ -0,0 +1,120 @@
+// Prometheus text exposition (format 0.0.4) for the server's /metrics endpoint, and the
+// per-route HTTP request counters and latency histograms it reports.
+
+export type MetricType = 'gauge' | 'counter' | 'histogram';
+
+export type MetricLabels = Record<string, string>;
+
+export type MetricSample = {
+	labels: MetricLabels;
+	value: number;
+	// Appended to the family name, e.g. _bucket, _sum and _count for histograms
+	suffix?: string;
+};
+
+export type MetricFamily = {
+	name: string;
+	help: string;
+	type: MetricType;
+	samples: MetricSample[];
+};
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Request duration histogram buckets, in seconds
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+	if (Number.isNaN(value)) {
+		return 'NaN';
+	}
+	if (!Number.isFinite(value)) {
+		return value > 0 ? '+Inf' : '-Inf';
+	}
+	return String(value);
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+	return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Families without samples are left out
+export function formatMetrics(families: MetricFamily[]): string {
+	return families
+		.filter(family => family.samples.length > 0)
+		.map(family => [
+			`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+			`# TYPE ${family.name} ${family.type}`,
+			...family.samples.map(sample => `${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+		].join('\n'))
+		.join('\n') + '\n';
+}
+
+type RouteStats = {
+	method: string;
+	route: string;
+	// Requests by status code
+	statuses: Map<number, number>;
+	// Cumulative counts per DURATION_BUCKETS bound
+	buckets: number[];
+	count: number;
+	sum: number;
+};
+
+// Counts and latencies since the server started, by method and route pattern (not the raw URL,
+// so /accounts/:label/... stays one series)
+export class RequestMetrics {
+	private routes = new Map<string, RouteStats>();
+
+	observe(method: string, route: string, status: number, seconds: number): void {
+		const key = `${method} ${route}`;
+		let stats = this.routes.get(key);
+		if (!stats) {
+			stats = { method, route, statuses: new Map(), buckets: DURATION_BUCKETS.map(() => 0), count: 0, sum: 0 };
+			this.routes.set(key, stats);
+		}
+
+		stats.statuses.set(status, (stats.statuses.get(status) ?? 0) + 1);
+		DURATION_BUCKETS.forEach((bound, index) => {
+			if (seconds <= bound) {
+				stats!.buckets[index] += 1;
+			}
+		});
+		stats.count += 1;
+		stats.sum += seconds;
+	}
+
+	families(prefix: string): MetricFamily[] {
+		const routes = [...this.routes.values()];
+		return [
+			{
+				name: `${prefix}_http_requests_total`,
+				help: 'HTTP requests handled, by method, route and status code',
+				type: 'counter',
+				samples: routes.flatMap(stats => [...stats.statuses.entries()].map(([status, count]) => ({
+					labels: { method: stats.method, route: stats.route, status: String(status) },
+					value: count
+				})))
+			},
+			{
+				name: `${prefix}_http_request_duration_seconds`,
+				help: 'HTTP request latency, by method and route',
+				type: 'histogram',
+				samples: routes.flatMap(stats => {
+					const labels = { method: stats.method, route: stats.route };
+					return [
+						...DURATION_BUCKETS.map((bound, index) => ({ labels: { ...labels, le: String(bound) }, value: stats.buckets[index], suffix: '_bucket' })),
+						{ labels: { ...labels, le: '+Inf' }, value: stats.count, suffix: '_bucket' },
+						{ labels, value: stats.sum, suffix: '_sum' },
+						{ labels, value: stats.count, suffix: '_count' }
+					];
+				})
+			}
+		];
+	}
+}
@@ -0,0 +1,191 @@
+import fs from "fs";
+import path from "path";
+
+// Collection run log. The collector appends one JSON line per account per run to runs.jsonl in
+// the data directory; the server reads it for /runs and /status, so an automation can notice
+// when collection has stopped working.
+
+export type RunServiceRecord = {
+	// false when the account has no meter for the service
+	configured: boolean;
+	success: boolean;
+	// Readings in the response, and what storing them changed
+	data_points: number;
+	records_added: number;
+	records_updated: number;
+	error_kind: string | null;
+	error: string | null;
+};
+
+export type RunRecord = {
+	account: string;
+	started_at: string;
+	finished_at: string;
+	duration_seconds: number;
+	// At least one service was collected
+	success: boolean;
+	// Set when anything failed (see the collector's errors.ts for the kinds)
+	error_kind: string | null;
+	error: string | null;
+	session_reused: boolean | null;
+	services: {
+		gas: RunServiceRecord;
+		electric: RunServiceRecord;
+	};
+};
+
+export type AccountRunStatus = {
+	account: string;
+	last_run: RunRecord | null;
+	last_success_at: string | null;
+	hours_since_success: number | null;
+	// Failed runs since the last successful one
+	consecutive_failures: number;
+	stale: boolean;
+};
+
+export type CollectionStatus = {
+	// unknown until the first run is logged
+	status: 'ok' | 'degraded' | 'unknown';
+	stale_after_hours: number;
+	last_run_at: string | null;
+	// The oldest of the accounts' last successful runs, so one stuck account shows up
+	last_success_at: string | null;
+	hours_since_success: number | null;
+	consecutive_failures: number;
+	issues: string[];
+	accounts: AccountRunStatus[];
+};
+
+export const RUN_LOG_FILE = 'runs.jsonl';
+
+// Older lines are dropped once the log grows past this many runs
+export const MAX_LOGGED_RUNS = 2000;
+
+export function runLogFile(data_dir: string): string {
+	return path.join(data_dir, RUN_LOG_FILE);
+}
+
+export function appendRun(filename: string, record: RunRecord, max_runs = MAX_LOGGED_RUNS): void {
+	fs.mkdirSync(path.dirname(filename), { recursive: true });
+	fs.appendFileSync(filename, JSON.stringify(record) + '\n');
+
+	const lines = fs.readFileSync(filename, 'utf8').split('\n').filter(line => line.trim());
+	if (lines.length > max_runs) {
+		fs.writeFileSync(filename, lines.slice(-max_runs).join('\n') + '\n');
+	}
+}
+
+// Logged runs, newest first. Lines that can't be parsed (e.g. a run cut off mid-write) are skipped.
+export function readRuns(filename: string, options: { limit?: number; account?: string } = {}): RunRecord[] {
+	if (!fs.existsSync(filename)) {
+		return [];
+	}
+	return parseRuns(fs.readFileSync(filename, 'utf8'), options);
+}
+
+// Runs from the text of a run log, newest first
+export function parseRuns(text: string, options: { limit?: number; account?: string } = {}): RunRecord[] {
+	const runs: RunRecord[] = [];
+	for (const line of text.split('\n').reverse()) {
+		if (!line.trim()) {
+			continue;
+		}
+		try {
+			const run: RunRecord = JSON.parse(line);
+			if (!options.account || run.account === options.account) {
+				runs.push(run);
+			}
+		} catch {
+			continue;
+		}
+		if (options.limit && runs.length >= options.limit) {
+			break;
+		}
+	}
+	return runs;
+}
+
+// Account runs that start within this long of each other belong to one collection
+const SAME_COLLECTION_MS = 30 * 60 * 1000;
+
+// Gaps between this many recent collections decide the usual one
+const EXPECTED_RUN_SAMPLES = 10;
+
+// When the next collection should start: the last one plus the median gap between recent ones.
+// For collectors started by cron or Task Scheduler, which leave no schedule behind; null with
+// fewer than three logged collections.
+export function expectedNextRun(runs: RunRecord[]): Date | null {
+	const starts = runs.map(run => new Date(run.started_at).getTime()).filter(time => !Number.isNaN(time)).sort((a, b) => a - b);
+	const collections: number[] = [];
+	for (const start of starts) {
+		if (collections.length === 0 || start - collections[collections.length - 1] > SAME_COLLECTION_MS) {
+			collections.push(start);
+		}
+	}
+	if (collections.length < 3) {
+		return null;
+	}
+
+	const recent = collections.slice(-(EXPECTED_RUN_SAMPLES + 1));
+	const gaps = recent.slice(1).map((start, index) => start - recent[index]).sort((a, b) => a - b);
+	return new Date(recent[recent.length - 1] + gaps[Math.floor(gaps.length / 2)]);
+}
+
+function hoursSince(timestamp: string, now: Date): number {
+	return parseFloat(((now.getTime() - new Date(timestamp).getTime()) / 3600000).toFixed(2));
+}
+
+export function accountRunStatus(account: string, runs: RunRecord[], stale_after_hours: number, now = new Date()): AccountRunStatus {
+	const account_runs = runs.filter(run => run.account === account);
+	const last_success = account_runs.find(run => run.success);
+	const failures = last_success ? account_runs.indexOf(last_success) : account_runs.length;
+	const hours_since_success = last_success ? hoursSince(last_success.finished_at, now) : null;
+
+	return {
+		account,
+		last_run: account_runs[0] ?? null,
+		last_success_at: last_success?.finished_at ?? null,
+		hours_since_success,
+		consecutive_failures: failures,
+		stale: hours_since_success === null || hours_since_success > stale_after_hours
+	};
+}
+
+// Overall collection health from the newest-first run log. Degraded when an account hasn't been
+// collected within stale_after_hours, or its last run failed or had a failing service.
+export function collectionStatus(runs: RunRecord[], accounts: string[], stale_after_hours: number, now = new Date()): CollectionStatus {
+	const statuses = accounts.map(account => accountRunStatus(account, runs, stale_after_hours, now));
+	const issues: string[] = [];
+
+	for (const status of statuses) {
+		const name = accounts.length > 1 ? `${status.account}: ` : '';
+		if (!status.last_run) {
+			issues.push(`${name}no collection runs logged`);
+			continue;
+		}
+		if (status.stale) {
+			issues.push(status.last_success_at
+				? `${name}last successful collection was ${status.hours_since_success} hours ago (limit ${stale_after_hours})`
+				: `${name}no successful collection logged`);
+		}
+		if (status.last_run.error_kind) {
+			issues.push(`${name}last run ${status.last_run.success ? 'partly failed' : 'failed'} (${status.last_run.error_kind}): ${(status.last_run.error ?? 'unknown error').split('\n')[0]}`);
+		}
+	}
+
+	const oldest_success = statuses.every(status => status.last_success_at)
+		? statuses.reduce((oldest, status) => !oldest || status.last_success_at! < oldest ? status.last_success_at! : oldest, '')
+		: null;
+
+	return {
+		status: runs.length === 0 ? 'unknown' : issues.length > 0 ? 'degraded' : 'ok',
+		stale_after_hours,
+		last_run_at: runs[0]?.finished_at ?? null,
+		last_success_at: oldest_success,
+		hours_since_success: oldest_success ? hoursSince(oldest_success, now) : null,
+		consecutive_failures: Math.max(0, ...statuses.map(status => status.consecutive_failures)),
+		issues,
+		accounts: statuses
+	};
+}
@@ -0,0 +1,116 @@
+import { toStorageDate, type ServiceType } from "./storage.ts";
+import type { DayCost } from "./tariff.ts";
+
+// Home Assistant long-term statistics built from daily history. Each statistic has the fields
+// the recorder's statistics import takes (statistic_id, source, name, unit_of_measurement,
+// has_mean, has_sum) plus `stats` rows of { start, state, sum }: `state` is the usage or cost
+// of the hour/day starting at `start` and `sum` the running total since the first record.
+
+export type StatisticPeriod = 'hour' | 'day';
+
+export const STATISTIC_PERIODS: StatisticPeriod[] = ['hour', 'day'];
+
+export const STATISTIC_SOURCE = 'duke_energy';
+
+export type StatisticRow = {
+	start: string;
+	state: number;
+	sum: number;
+};
+
+export type Statistic = {
+	statistic_id: string;
+	source: string;
+	name: string;
+	unit_of_measurement: string;
+	has_mean: boolean;
+	has_sum: boolean;
+	stats: StatisticRow[];
+};
+
+// Local-time ISO timestamp with the UTC offset, e.g. 2025-09-12T00:00:00-04:00
+export function localTimestamp(date: Date): string {
+	const pad = (value: number) => Math.abs(value).toString().padStart(2, '0');
+	const offset = -date.getTimezoneOffset();
+	const sign = offset >= 0 ? '+' : '-';
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:00:00` +
+		`${sign}${pad(Math.trunc(offset / 60))}:${pad(offset % 60)}`;
+}
+
+function localMidnight(record_date: string): Date {
+	const iso = toStorageDate(record_date);
+	return new Date(+iso.slice(0, 4), +iso.slice(5, 7) - 1, +iso.slice(8, 10));
+}
+
+function round(value: number, digits: number): number {
+	return parseFloat(value.toFixed(digits));
+}
+
+function cumulative(rows: { start: Date; state: number }[], digits: number): StatisticRow[] {
+	let sum = 0;
+	return rows
+		.sort((a, b) => a.start.getTime() - b.start.getTime())
+		.map(row => {
+			sum += row.state;
+			return { start: localTimestamp(row.start), state: round(row.state, digits), sum: round(sum, digits) };
+		});
+}
+
+// Usage and cost statistics for one service. Usage is attributed to the day it was consumed
+// (the record's date), not the day it was fetched. Hourly statistics use interval readings
+// where they exist; a day without them is reported as a single hour starting at midnight.
+// A day's cost is spread over its hours in proportion to usage. Statistics for an account other
+// than the default one are named after it (duke_energy:<account>_gas_consumption).
+export function buildStatistics(
+	serviceType: ServiceType,
+	records: any[],
+	costs: DayCost[],
+	options: { period: StatisticPeriod; intervals?: Map<string, any[]>; currency?: string; account?: string }
+): Statistic[] {
+	const prefix = (options.account ? `${options.account.replace(/-/g, '_')}_` : '') + serviceType.toLowerCase();
+	const label = (options.account ? `${options.account} ` : '') + (serviceType === 'GAS' ? 'Gas' : 'Electric');
+	const cost_by_date = new Map(costs.map(cost => [cost.date, cost]));
+	const usage_rows: { start: Date; state: number }[] = [];
+	const cost_rows: { start: Date; state: number }[] = [];
+
+	for (const record of records) {
+		const usage = serviceType === 'GAS' ? record.usage_ccf || 0 : record.usage_kwh || 0;
+		const cost = cost_by_date.get(record.date)?.total ?? 0;
+		const day_intervals = options.period === 'hour' ? options.intervals?.get(record.date) ?? [] : [];
+
+		if (day_intervals.length === 0) {
+			usage_rows.push({ start: localMidnight(record.date), state: usage });
+			cost_rows.push({ start: localMidnight(record.date), state: cost });
+			continue;
+		}
+
+		const hours = new Map<number, { start: Date; state: number }>();
+		for (const interval of day_intervals) {
+			const start = new Date(interval.start_time);
+			start.setMinutes(0, 0, 0);
+			const hour = hours.get(start.getTime()) ?? { start, state: 0 };
+			hour.state += interval.usage_kwh;
+			hours.set(start.getTime(), hour);
+		}
+
+		const interval_total = [...hours.values()].reduce((sum, hour) => sum + hour.state, 0);
+		for (const hour of hours.values()) {
+			usage_rows.push(hour);
+			cost_rows.push({ start: hour.start, state: interval_total > 0 ? cost * hour.state / interval_total : 0 });
+		}
+	}
+
+	const metadata = (kind: string, name: string, unit: string) => ({
+		statistic_id: `${STATISTIC_SOURCE}:${prefix}_${kind}`,
+		source: STATISTIC_SOURCE,
+		name: `Duke Energy ${label} ${name}`,
+		unit_of_measurement: unit,
+		has_mean: false,
+		has_sum: true
+	});
+
+	return [
+		{ ...metadata('consumption', 'Consumption', serviceType === 'GAS' ? 'CCF' : 'kWh'), stats: cumulative(usage_rows, 3) },
+		{ ...metadata('cost', 'Cost', options.currency || 'USD'), stats: cumulative(cost_rows, 2) }
+	];
+}
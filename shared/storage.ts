@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import { Database } from "bun:sqlite";
+
+// Usage history storage shared by the collector (writes) and the server (reads).
+// Records keep the collector's shape (`date` is MM/DD/YYYY); stores index them by
+// service, meter and calendar date.
+
+export type ServiceType = 'GAS' | 'ELECTRIC';
+export type StorageBackend = 'json' | 'sqlite';
+
+export type SeriesKey = {
+	service: ServiceType;
+	// Meter serial number; '' when unknown. Queries without a meter match every meter.
+	meter?: string;
+};
+
+export type DateBounds = {
+	from?: Date;
+	to?: Date;
+};
+
+export type UpsertResult = {
+	added: number;
+	updated: number;
+	total: number;
+};
+
+export interface UsageStore {
+	// Every record for the series, oldest first
+	load(series: SeriesKey): any[];
+	// Records within the (inclusive) date bounds, oldest first
+	query(series: SeriesKey, bounds?: DateBounds): any[];
+	// Insert or replace records by date
+	upsert(series: SeriesKey, records: any[]): UpsertResult;
+	// Replace the whole series (used after repairs and by migrations)
+	replace(series: SeriesKey, records: any[]): void;
+	// Drop records older than retention_days; 0 keeps everything. Returns the number removed.
+	prune(series: SeriesKey, retention_days: number): number;
+	close(): void;
+}
+
+// MM/DD/YYYY -> YYYY-MM-DD, which sorts and compares as a string
+export function toStorageDate(date: string): string {
+	const match = typeof date === 'string' ? date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/) : null;
+	if (!match) {
+		return date;
+	}
+	return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+function boundToStorageDate(date: Date): string {
+	const month = (date.getMonth() + 1).toString().padStart(2, '0');
+	const day = date.getDate().toString().padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function retentionCutoff(retention_days: number): string {
+	const cutoff = new Date();
+	cutoff.setDate(cutoff.getDate() - retention_days);
+	return boundToStorageDate(cutoff);
+}
+
+function sortByDate(records: any[]): any[] {
+	return records.sort((a, b) => toStorageDate(a.date).localeCompare(toStorageDate(b.date)));
+}
+
+// One duke-<service>-history.json file per service. Files hold a single meter each,
+// so the meter part of the key is ignored.
+export class JsonUsageStore implements UsageStore {
+	data_dir: string;
+
+	constructor(data_dir: string) {
+		this.data_dir = data_dir;
+	}
+
+	historyFile(series: SeriesKey): string {
+		const prefix = series.service.toLowerCase();
+		return path.join(this.data_dir, prefix, `duke-${prefix}-history.json`);
+	}
+
+	load(series: SeriesKey): any[] {
+		const filename = this.historyFile(series);
+		if (!fs.existsSync(filename)) {
+			return [];
+		}
+		// Files written on Windows may start with a BOM; a placeholder `{}` counts as empty
+		const data = JSON.parse(fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, ''));
+		return Array.isArray(data) ? data : [];
+	}
+
+	query(series: SeriesKey, bounds: DateBounds = {}): any[] {
+		const from = bounds.from ? boundToStorageDate(bounds.from) : null;
+		const to = bounds.to ? boundToStorageDate(bounds.to) : null;
+		return this.load(series).filter(record => {
+			const date = toStorageDate(record.date);
+			return (!from || date >= from) && (!to || date <= to);
+		});
+	}
+
+	upsert(series: SeriesKey, records: any[]): UpsertResult {
+		const by_date = new Map<string, any>(this.load(series).map(record => [toStorageDate(record.date), record]));
+		let added = 0;
+		let updated = 0;
+
+		for (const record of records) {
+			const key = toStorageDate(record.date);
+			if (by_date.has(key)) {
+				updated += 1;
+			} else {
+				added += 1;
+			}
+			by_date.set(key, record);
+		}
+
+		this.replace(series, [...by_date.values()]);
+		return { added, updated, total: by_date.size };
+	}
+
+	replace(series: SeriesKey, records: any[]): void {
+		const filename = this.historyFile(series);
+		fs.mkdirSync(path.dirname(filename), { recursive: true });
+		fs.writeFileSync(filename, JSON.stringify(sortByDate([...records]), null, 2));
+	}
+
+	prune(series: SeriesKey, retention_days: number): number {
+		if (retention_days <= 0) {
+			return 0;
+		}
+
+		const cutoff = retentionCutoff(retention_days);
+		const records = this.load(series);
+		const kept = records.filter(record => toStorageDate(record.date) >= cutoff);
+		if (kept.length !== records.length) {
+			this.replace(series, kept);
+		}
+		return records.length - kept.length;
+	}
+
+	close(): void {}
+}
+
+// Embedded SQLite database with one row per service/meter/date
+export class SqliteUsageStore implements UsageStore {
+	db: Database;
+
+	constructor(db_path: string) {
+		fs.mkdirSync(path.dirname(db_path), { recursive: true });
+		this.db = new Database(db_path, { create: true });
+		this.db.run("PRAGMA journal_mode = WAL");
+		this.db.run(`CREATE TABLE IF NOT EXISTS usage_history (
+			service TEXT NOT NULL,
+			meter TEXT NOT NULL,
+			date TEXT NOT NULL,
+			record TEXT NOT NULL,
+			updated_at TEXT NOT NULL,
+			PRIMARY KEY (service, meter, date)
+		)`);
+		this.db.run("CREATE INDEX IF NOT EXISTS usage_history_service_date ON usage_history (service, date)");
+	}
+
+	private where(series: SeriesKey): { clause: string; params: string[] } {
+		if (series.meter === undefined) {
+			return { clause: 'service = ?', params: [series.service] };
+		}
+		return { clause: 'service = ? AND meter = ?', params: [series.service, series.meter] };
+	}
+
+	load(series: SeriesKey): any[] {
+		return this.query(series);
+	}
+
+	query(series: SeriesKey, bounds: DateBounds = {}): any[] {
+		const { clause, params } = this.where(series);
+		const conditions = [clause];
+		const values: string[] = [...params];
+
+		if (bounds.from) {
+			conditions.push('date >= ?');
+			values.push(boundToStorageDate(bounds.from));
+		}
+		if (bounds.to) {
+			conditions.push('date <= ?');
+			values.push(boundToStorageDate(bounds.to));
+		}
+
+		const rows = this.db.query(`SELECT record FROM usage_history WHERE ${conditions.join(' AND ')} ORDER BY date, meter`).all(...values) as { record: string }[];
+		return rows.map(row => JSON.parse(row.record));
+	}
+
+	upsert(series: SeriesKey, records: any[]): UpsertResult {
+		const meter = series.meter ?? '';
+		const exists = this.db.query("SELECT 1 FROM usage_history WHERE service = ? AND meter = ? AND date = ?");
+		const write = this.db.query(`INSERT INTO usage_history (service, meter, date, record, updated_at) VALUES (?, ?, ?, ?, ?)
+			ON CONFLICT (service, meter, date) DO UPDATE SET record = excluded.record, updated_at = excluded.updated_at`);
+		let added = 0;
+		let updated = 0;
+
+		this.db.transaction(() => {
+			for (const record of records) {
+				const date = toStorageDate(record.date);
+				if (exists.get(series.service, meter, date)) {
+					updated += 1;
+				} else {
+					added += 1;
+				}
+				write.run(series.service, meter, date, JSON.stringify(record), new Date().toISOString());
+			}
+		})();
+
+		const { clause, params } = this.where({ service: series.service, meter });
+		const { total } = this.db.query(`SELECT COUNT(*) AS total FROM usage_history WHERE ${clause}`).get(...params) as { total: number };
+		return { added, updated, total };
+	}
+
+	replace(series: SeriesKey, records: any[]): void {
+		const meter = series.meter ?? '';
+		this.db.transaction(() => {
+			this.db.query("DELETE FROM usage_history WHERE service = ? AND meter = ?").run(series.service, meter);
+			this.upsert({ service: series.service, meter }, records);
+		})();
+	}
+
+	prune(series: SeriesKey, retention_days: number): number {
+		if (retention_days <= 0) {
+			return 0;
+		}
+
+		const { clause, params } = this.where(series);
+		const result = this.db.query(`DELETE FROM usage_history WHERE ${clause} AND date < ?`).run(...params, retentionCutoff(retention_days));
+		return result.changes;
+	}
+
+	close(): void {
+		this.db.close();
+	}
+}
+
+export type StorageOptions = {
+	backend?: StorageBackend;
+	data_dir: string;
+	sqlite_path?: string;
+};
+
+export function createUsageStore(options: StorageOptions): UsageStore {
+	if (options.backend === 'sqlite') {
+		return new SqliteUsageStore(options.sqlite_path || path.join(options.data_dir, 'duke-energy.db'));
+	}
+	return new JsonUsageStore(options.data_dir);
+}
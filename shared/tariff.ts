@@ -0,0 +1,390 @@
+import fs from "fs";
+import type { ServiceType } from "./storage.ts";
+
+// Tariff engine shared by the collector (exports) and the server (cost routes), so every
+// cost figure comes from the same rate definitions. Tariffs are read from a JSON file with
+// a list of plans per service; each day is priced with the plan in effect on that day.
+
+export type RateBlock = {
+	// Upper bound of the block in units per billing period; omit for the last block
+	up_to?: number | null;
+	rate: number;
+};
+
+export type Season = {
+	name: string;
+	// Calendar months (1-12) the season's blocks apply to
+	months: number[];
+	blocks: RateBlock[];
+};
+
+export type TimeOfUsePeriod = {
+	name: string;
+	rate: number;
+	// [start, end) hour ranges in local time, e.g. [[14, 19]]
+	hours: [number, number][];
+	// Days of week (0 = Sunday); omit for every day
+	weekdays?: number[];
+	// Calendar months (1-12); omit for every month
+	months?: number[];
+};
+
+export type Rider = {
+	name: string;
+	// Charge per billed unit
+	per_unit?: number;
+	// Fixed charge per month, spread across the calendar days of the billing period
+	monthly?: number;
+};
+
+export type Tax = {
+	name: string;
+	// Percentage of energy, customer charge and riders
+	percent: number;
+};
+
+export type TariffPlan = {
+	name: string;
+	// YYYY-MM-DD, inclusive
+	effective_from: string;
+	effective_to?: string;
+	// Billed unit; gas defaults to ccf, electric to kwh
+	unit?: 'ccf' | 'therm' | 'kwh';
+	// Fixed monthly customer charge, spread across the calendar days of the billing period
+	customer_charge?: number;
+	// Used for months no season covers
+	blocks?: RateBlock[];
+	seasons?: Season[];
+	// Only applied to days with interval readings; other usage falls back to the blocks
+	time_of_use?: TimeOfUsePeriod[];
+	riders?: Rider[];
+	taxes?: Tax[];
+};
+
+export type Tariff = {
+	currency?: string;
+	GAS?: TariffPlan[];
+	ELECTRIC?: TariffPlan[];
+};
+
+export type DayCost = {
+	date: string;
+	usage: number;
+	unit: string;
+	energy: number;
+	customer_charge: number;
+	riders: number;
+	taxes: number;
+	total: number;
+	tariff: string | null;
+};
+
+// Billing period a day (YYYY-MM-DD) belongs to, its first day and its length in days
+export type BillingPeriodOf = (iso_date: string) => { key: string; start: string; days: number };
+
+export type CostTotals = {
+	usage: number;
+	energy: number;
+	customer_charge: number;
+	riders: number;
+	taxes: number;
+	total: number;
+	days: number;
+};
+
+// Matches the flat rates the collector used before tariffs were configurable
+export const DEFAULT_TARIFF: Tariff = {
+	currency: 'USD',
+	GAS: [{ name: 'Default gas rate', effective_from: '2000-01-01', unit: 'ccf', blocks: [{ rate: 0.5685 }] }],
+	ELECTRIC: [{ name: 'Default electric rate', effective_from: '2000-01-01', unit: 'kwh', blocks: [{ rate: 0.0929 }] }]
+};
+
+function round(value: number, digits = 2): number {
+	return parseFloat(value.toFixed(digits));
+}
+
+// MM/DD/YYYY (collector records) or YYYY-MM-DD -> YYYY-MM-DD
+function isoDate(date: string): string {
+	const match = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+	if (match) {
+		return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+	}
+	return date.slice(0, 10);
+}
+
+function daysInMonth(iso_date: string): number {
+	return new Date(parseInt(iso_date.slice(0, 4)), parseInt(iso_date.slice(5, 7)), 0).getDate();
+}
+
+// Whole days from one YYYY-MM-DD date to a later one
+function daysBetween(from: string, to: string): number {
+	const utc = (date: string) => Date.UTC(parseInt(date.slice(0, 4)), parseInt(date.slice(5, 7)) - 1, parseInt(date.slice(8, 10)));
+	return Math.round((utc(to) - utc(from)) / (24 * 60 * 60 * 1000));
+}
+
+export const calendarMonth: BillingPeriodOf = iso_date => ({ key: iso_date.slice(0, 7), start: `${iso_date.slice(0, 7)}-01`, days: daysInMonth(iso_date) });
+
+// Cost of `usage` units billed after `before` units already used this month
+function blockCost(blocks: RateBlock[], before: number, usage: number): number {
+	let cost = 0;
+	let lower = 0;
+
+	for (const block of blocks) {
+		const upper = block.up_to ?? Infinity;
+		const overlap = Math.min(before + usage, upper) - Math.max(before, lower);
+		if (overlap > 0) {
+			cost += overlap * block.rate;
+		}
+		lower = upper;
+	}
+
+	return cost;
+}
+
+function validatePlan(plan: any, where: string): string[] {
+	const errors: string[] = [];
+	const isNumber = (value: any) => typeof value === 'number' && isFinite(value);
+	const isMonthList = (value: any) => Array.isArray(value) && value.every(month => Number.isInteger(month) && month >= 1 && month <= 12);
+	const checkBlocks = (blocks: any, path: string) => {
+		if (!Array.isArray(blocks) || blocks.length === 0) {
+			errors.push(`${path} must be a non-empty array`);
+			return;
+		}
+		blocks.forEach((block: any, index: number) => {
+			if (!isNumber(block?.rate)) {
+				errors.push(`${path}[${index}].rate must be a number`);
+			}
+			const last = index === blocks.length - 1;
+			if (!last && !isNumber(block?.up_to)) {
+				errors.push(`${path}[${index}].up_to is required on every block but the last`);
+			}
+		});
+	};
+
+	if (typeof plan?.name !== 'string') {
+		errors.push(`${where}.name must be a string`);
+	}
+	if (typeof plan?.effective_from !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(plan.effective_from)) {
+		errors.push(`${where}.effective_from must be YYYY-MM-DD`);
+	}
+	if (plan?.effective_to !== undefined && (typeof plan.effective_to !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(plan.effective_to))) {
+		errors.push(`${where}.effective_to must be YYYY-MM-DD`);
+	}
+	if (plan?.unit !== undefined && !['ccf', 'therm', 'kwh'].includes(plan.unit)) {
+		errors.push(`${where}.unit must be ccf, therm or kwh`);
+	}
+	if (plan?.customer_charge !== undefined && !isNumber(plan.customer_charge)) {
+		errors.push(`${where}.customer_charge must be a number`);
+	}
+	if (plan?.blocks === undefined && plan?.seasons === undefined) {
+		errors.push(`${where} needs blocks or seasons`);
+	}
+	if (plan?.blocks !== undefined) {
+		checkBlocks(plan.blocks, `${where}.blocks`);
+	}
+	(plan?.seasons ?? []).forEach((season: any, index: number) => {
+		if (!isMonthList(season?.months)) {
+			errors.push(`${where}.seasons[${index}].months must be a list of months 1-12`);
+		}
+		checkBlocks(season?.blocks, `${where}.seasons[${index}].blocks`);
+	});
+	(plan?.time_of_use ?? []).forEach((period: any, index: number) => {
+		const path = `${where}.time_of_use[${index}]`;
+		if (!isNumber(period?.rate)) {
+			errors.push(`${path}.rate must be a number`);
+		}
+		if (!Array.isArray(period?.hours) || !period.hours.every((range: any) => Array.isArray(range) && range.length === 2 && range.every((hour: any) => Number.isInteger(hour) && hour >= 0 && hour <= 24))) {
+			errors.push(`${path}.hours must be a list of [start, end] hours 0-24`);
+		}
+		if (period?.weekdays !== undefined && !(Array.isArray(period.weekdays) && period.weekdays.every((day: any) => Number.isInteger(day) && day >= 0 && day <= 6))) {
+			errors.push(`${path}.weekdays must be a list of days 0-6`);
+		}
+		if (period?.months !== undefined && !isMonthList(period.months)) {
+			errors.push(`${path}.months must be a list of months 1-12`);
+		}
+	});
+	(plan?.riders ?? []).forEach((rider: any, index: number) => {
+		if (rider?.per_unit !== undefined && !isNumber(rider.per_unit) || rider?.monthly !== undefined && !isNumber(rider.monthly)) {
+			errors.push(`${where}.riders[${index}] per_unit and monthly must be numbers`);
+		}
+	});
+	(plan?.taxes ?? []).forEach((tax: any, index: number) => {
+		if (!isNumber(tax?.percent)) {
+			errors.push(`${where}.taxes[${index}].percent must be a number`);
+		}
+	});
+
+	return errors;
+}
+
+export function validateTariff(tariff: any): string[] {
+	if (!tariff || typeof tariff !== 'object' || Array.isArray(tariff)) {
+		return ['tariff must be an object'];
+	}
+
+	const errors: string[] = [];
+	for (const serviceType of ['GAS', 'ELECTRIC'] as const) {
+		const plans = tariff[serviceType];
+		if (plans === undefined) {
+			continue;
+		}
+		if (!Array.isArray(plans)) {
+			errors.push(`${serviceType} must be a list of plans`);
+			continue;
+		}
+		plans.forEach((plan: any, index: number) => errors.push(...validatePlan(plan, `${serviceType}[${index}]`)));
+	}
+	return errors;
+}
+
+export class TariffEngine {
+	tariff: Tariff;
+
+	constructor(tariff: Tariff = DEFAULT_TARIFF) {
+		const errors = validateTariff(tariff);
+		if (errors.length > 0) {
+			throw new Error(`Invalid tariff: ${errors.join('; ')}`);
+		}
+		this.tariff = tariff;
+	}
+
+	// A missing file means the default flat rates; an unreadable or invalid one is an error
+	static fromFile(filename: string): TariffEngine {
+		if (!fs.existsSync(filename)) {
+			return new TariffEngine();
+		}
+
+		const tariff = JSON.parse(fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, ''));
+		const errors = validateTariff(tariff);
+		if (errors.length > 0) {
+			throw new Error(`Invalid tariff file ${filename}: ${errors.join('; ')}`);
+		}
+		return new TariffEngine(tariff);
+	}
+
+	get currency(): string {
+		return this.tariff.currency || 'USD';
+	}
+
+	// The plan in effect on a date; when plans overlap the latest effective_from wins
+	planFor(serviceType: ServiceType, date: string): TariffPlan | null {
+		const day = isoDate(date);
+		const plans = (this.tariff[serviceType] ?? [])
+			.filter(plan => plan.effective_from <= day && (!plan.effective_to || day <= plan.effective_to))
+			.sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+		return plans[0] ?? null;
+	}
+
+	unitFor(serviceType: ServiceType, plan: TariffPlan | null): string {
+		return plan?.unit ?? (serviceType === 'GAS' ? 'ccf' : 'kwh');
+	}
+
+	// Billed usage of a history record in the plan's unit
+	usageOf(serviceType: ServiceType, record: any, unit: string): number {
+		if (serviceType === 'GAS') {
+			return unit === 'therm' ? record.usage_therms || 0 : record.usage_ccf || 0;
+		}
+		return record.usage_kwh || 0;
+	}
+
+	// Price daily history records. Tiered blocks count usage from the start of each billing
+	// period (calendar months unless `periodOf` says otherwise), so records are priced oldest
+	// first. Monthly charges are spread over the calendar days of the period, and a record carries
+	// the share of every day since the previous record of its period (or since the period started),
+	// so missing readings don't drop part of the charge. `intervals` maps a record date
+	// (MM/DD/YYYY) to that day's interval readings and is only used for time-of-use plans.
+	priceDays(serviceType: ServiceType, records: any[], intervals: Map<string, any[]> = new Map(), periodOf: BillingPeriodOf = calendarMonth): DayCost[] {
+		const period_to_date = new Map<string, number>();
+		const last_priced = new Map<string, string>();
+		const sorted = [...records].sort((a, b) => isoDate(a.date).localeCompare(isoDate(b.date)));
+
+		return sorted.map(record => {
+			const day = isoDate(record.date);
+			const billing_period = periodOf(day);
+			const month = parseInt(day.slice(5, 7));
+			const plan = this.planFor(serviceType, record.date);
+			const unit = this.unitFor(serviceType, plan);
+			const usage = this.usageOf(serviceType, record, unit);
+			const before = period_to_date.get(billing_period.key) ?? 0;
+			period_to_date.set(billing_period.key, before + usage);
+			const previous = last_priced.get(billing_period.key);
+			const covered_days = Math.max(previous ? daysBetween(previous, day) : daysBetween(billing_period.start, day) + 1, 0);
+			last_priced.set(billing_period.key, day);
+
+			if (!plan) {
+				return { date: record.date, usage, unit, energy: 0, customer_charge: 0, riders: 0, taxes: 0, total: 0, tariff: null };
+			}
+
+			const blocks = plan.seasons?.find(season => season.months.includes(month))?.blocks ?? plan.blocks ?? [];
+			const days = billing_period.days;
+
+			// Interval usage inside a time-of-use period is billed at the period rate; everything
+			// else goes through the (seasonal) blocks
+			let tou_usage = 0;
+			let tou_cost = 0;
+			if (plan.time_of_use?.length) {
+				for (const interval of intervals.get(record.date) ?? []) {
+					const start = new Date(interval.start_time);
+					const period = plan.time_of_use.find(candidate =>
+						(!candidate.months || candidate.months.includes(start.getMonth() + 1)) &&
+						(!candidate.weekdays || candidate.weekdays.includes(start.getDay())) &&
+						candidate.hours.some(([from, to]) => start.getHours() >= from && start.getHours() < to));
+					if (period) {
+						tou_usage += interval.usage_kwh;
+						tou_cost += interval.usage_kwh * period.rate;
+					}
+				}
+			}
+
+			const block_usage = Math.max(usage - tou_usage, 0);
+			const energy = tou_cost + blockCost(blocks, before, block_usage);
+			const customer_charge = (plan.customer_charge ?? 0) * covered_days / days;
+			const riders = (plan.riders ?? []).reduce((sum, rider) => sum + (rider.per_unit ?? 0) * usage + (rider.monthly ?? 0) * covered_days / days, 0);
+			const subtotal = energy + customer_charge + riders;
+			const taxes = (plan.taxes ?? []).reduce((sum, tax) => sum + subtotal * tax.percent / 100, 0);
+
+			return {
+				date: record.date,
+				usage,
+				unit,
+				energy: round(energy, 4),
+				customer_charge: round(customer_charge, 4),
+				riders: round(riders, 4),
+				taxes: round(taxes, 4),
+				total: round(subtotal + taxes, 4),
+				tariff: plan.name
+			};
+		});
+	}
+
+	totals(costs: DayCost[]): CostTotals {
+		return totalCosts(costs);
+	}
+}
+
+// Sum priced days, rounded to cents
+export function totalCosts(costs: DayCost[]): CostTotals {
+	const sum = (field: 'usage' | 'energy' | 'customer_charge' | 'riders' | 'taxes' | 'total') =>
+		costs.reduce((total, cost) => total + cost[field], 0);
+
+	return {
+		usage: round(sum('usage'), 3),
+		energy: round(sum('energy')),
+		customer_charge: round(sum('customer_charge')),
+		riders: round(sum('riders')),
+		taxes: round(sum('taxes')),
+		total: round(sum('total')),
+		days: costs.length
+	};
+}
+
+// Group interval readings by their record date for priceDays()
+export function groupIntervalsByDate(intervals: any[]): Map<string, any[]> {
+	const by_date = new Map<string, any[]>();
+	for (const interval of intervals) {
+		const day = by_date.get(interval.date) ?? [];
+		day.push(interval);
+		by_date.set(interval.date, day);
+	}
+	return by_date;
+}
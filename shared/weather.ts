@@ -0,0 +1,288 @@
+import fs from "fs";
+import path from "path";
+import { toStorageDate, type ServiceType } from "./storage.ts";
+import { splitCsvLine } from "./csv.ts";
+
+// Weather-normalized usage. Daily mean temperatures come from a local CSV or JSON file (a NOAA
+// Climate Data Online daily export works as is) and are turned into heating and cooling degree
+// days against a balance point. Each service gets a least-squares baseline
+// (usage = base_load + per_hdd * HDD [+ per_cdd * CDD]) and monthly usage per degree day and
+// actual/expected ratios, so a cold month and a less efficient one can be told apart.
+
+export type TemperatureUnits = 'F' | 'C';
+
+export const TEMPERATURE_UNITS: TemperatureUnits[] = ['F', 'C'];
+
+export type DailyTemperature = {
+	// YYYY-MM-DD
+	date: string;
+	mean: number;
+};
+
+export type WeatherOptions = {
+	balance_point: number;
+	units: TemperatureUnits;
+	// Days to report (YYYY-MM-DD, inclusive); the baseline is always fitted on every matched day
+	from?: string;
+	to?: string;
+};
+
+export type WeatherRegression = {
+	base_load: number;
+	per_hdd: number;
+	// null when the service isn't modelled on cooling (gas) or there were no cooling days
+	per_cdd: number | null;
+	r_squared: number | null;
+	days: number;
+};
+
+export type WeatherDay = {
+	date: string;
+	usage: number;
+	mean_temp: number;
+	hdd: number;
+	cdd: number;
+	expected_usage: number | null;
+};
+
+export type WeatherMonth = {
+	month: string;
+	days: number;
+	usage: number;
+	mean_temp: number;
+	hdd: number;
+	cdd: number;
+	// Usage over the degree days the service responds to (HDD for gas, HDD + CDD for electric)
+	usage_per_degree_day: number | null;
+	expected_usage: number | null;
+	// usage / expected_usage: below 1 used less than the weather called for
+	efficiency: number | null;
+};
+
+export type WeatherReport = {
+	service: ServiceType;
+	unit: string;
+	balance_point: number;
+	temperature_units: TemperatureUnits;
+	matched_days: number;
+	// Usage days the temperature file has nothing for
+	days_without_temperature: number;
+	regression: WeatherRegression | null;
+	monthly: WeatherMonth[];
+	daily: WeatherDay[];
+};
+
+// Fewest matched days a baseline is fitted on
+const MIN_REGRESSION_DAYS = 14;
+
+// Column names recognised in CSV headers and JSON objects (case-insensitive)
+const DATE_FIELDS = ['date', 'day', 'time'];
+const MEAN_FIELDS = ['tavg', 'mean', 'temp', 'temperature', 'temperature_mean', 'temperature_2m_mean'];
+const MAX_FIELDS = ['tmax', 'max', 'high', 'temperature_max', 'temperature_2m_max'];
+const MIN_FIELDS = ['tmin', 'min', 'low', 'temperature_min', 'temperature_2m_min'];
+
+function round(value: number, digits = 3): number {
+	return parseFloat(value.toFixed(digits));
+}
+
+function pick(row: Record<string, any>, names: string[]): any {
+	const key = Object.keys(row).find(name => names.includes(name.toLowerCase()));
+	return key === undefined ? undefined : row[key];
+}
+
+function toNumber(value: any): number | null {
+	const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+	return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+// Date and mean temperature from one row; TMAX/TMIN are averaged when there is no mean
+function readRow(row: Record<string, any>): DailyTemperature | null {
+	const raw_date = pick(row, DATE_FIELDS);
+	const date = typeof raw_date === 'string' ? toStorageDate(raw_date.trim()).slice(0, 10) : null;
+	if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+		return null;
+	}
+
+	const mean = toNumber(pick(row, MEAN_FIELDS));
+	if (mean !== null) {
+		return { date, mean };
+	}
+	const max = toNumber(pick(row, MAX_FIELDS));
+	const min = toNumber(pick(row, MIN_FIELDS));
+	return max !== null && min !== null ? { date, mean: (max + min) / 2 } : null;
+}
+
+// Rows of a CSV (header row first), a JSON array of objects, or Open-Meteo's { daily: { time: [...], ... } }
+function readRows(filename: string): Record<string, any>[] {
+	const contents = fs.readFileSync(filename, 'utf8').replace(/^\uFEFF/, '');
+
+	if (path.extname(filename).toLowerCase() !== '.json') {
+		const lines = contents.split(/\r?\n/).filter(line => line.trim());
+		const header = splitCsvLine(lines[0] ?? '');
+		return lines.slice(1).map(line => {
+			const fields = splitCsvLine(line);
+			return Object.fromEntries(header.map((name, index) => [name, fields[index]]));
+		});
+	}
+
+	const data = JSON.parse(contents);
+	if (Array.isArray(data)) {
+		return data.filter(row => typeof row === 'object' && row !== null);
+	}
+	if (Array.isArray(data?.daily?.time)) {
+		return data.daily.time.map((time: string, index: number) =>
+			Object.fromEntries(Object.entries(data.daily).map(([name, values]) => [name, Array.isArray(values) ? values[index] : undefined])));
+	}
+	throw new Error(`Invalid weather file ${filename}: expected an array of daily rows or an Open-Meteo "daily" object`);
+}
+
+// Daily mean temperatures, oldest first; an empty list when the file doesn't exist. Several rows
+// for one date (e.g. a NOAA export with more than one station) are averaged.
+export function loadTemperatures(filename: string): DailyTemperature[] {
+	if (!filename || !fs.existsSync(filename)) {
+		return [];
+	}
+
+	const by_date = new Map<string, number[]>();
+	for (const row of readRows(filename)) {
+		const day = readRow(row);
+		if (day) {
+			by_date.set(day.date, [...(by_date.get(day.date) ?? []), day.mean]);
+		}
+	}
+
+	return [...by_date.entries()]
+		.map(([date, means]) => ({ date, mean: means.reduce((sum, mean) => sum + mean, 0) / means.length }))
+		.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function degreeDays(mean: number, balance_point: number): { hdd: number; cdd: number } {
+	return { hdd: Math.max(0, balance_point - mean), cdd: Math.max(0, mean - balance_point) };
+}
+
+// Least-squares coefficients for y = X b (X includes the constant column); null when singular
+function leastSquares(rows: number[][], values: number[]): number[] | null {
+	const size = rows[0].length;
+	const matrix = Array.from({ length: size }, (_, i) => [
+		...Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0)),
+		rows.reduce((sum, row, index) => sum + row[i] * values[index], 0)
+	]);
+
+	for (let column = 0; column < size; column++) {
+		const pivot = matrix.slice(column).reduce((best, row, index) => Math.abs(row[column]) > Math.abs(matrix[best][column]) ? column + index : best, column);
+		if (Math.abs(matrix[pivot][column]) < 1e-9) {
+			return null;
+		}
+		[matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+		for (let row = 0; row < size; row++) {
+			if (row !== column) {
+				const factor = matrix[row][column] / matrix[column][column];
+				matrix[row] = matrix[row].map((value, index) => value - factor * matrix[column][index]);
+			}
+		}
+	}
+	return matrix.map((row, index) => row[size] / row[index]);
+}
+
+function fitRegression(days: WeatherDay[], serviceType: ServiceType): WeatherRegression | null {
+	if (days.length < MIN_REGRESSION_DAYS) {
+		return null;
+	}
+
+	// Gas only heats; a term with no degree days at all can't be fitted
+	const use_hdd = days.some(day => day.hdd > 0);
+	const use_cdd = serviceType === 'ELECTRIC' && days.some(day => day.cdd > 0);
+	const rows = days.map(day => [1, ...(use_hdd ? [day.hdd] : []), ...(use_cdd ? [day.cdd] : [])]);
+	const usages = days.map(day => day.usage);
+	const coefficients = leastSquares(rows, usages);
+	if (!coefficients) {
+		return null;
+	}
+
+	const [base_load, per_hdd = 0] = use_hdd ? coefficients : [coefficients[0], 0];
+	const per_cdd = use_cdd ? coefficients[coefficients.length - 1] : null;
+	const predict = (day: WeatherDay) => base_load + per_hdd * day.hdd + (per_cdd ?? 0) * day.cdd;
+
+	const mean_usage = usages.reduce((sum, usage) => sum + usage, 0) / usages.length;
+	const total = usages.reduce((sum, usage) => sum + (usage - mean_usage) ** 2, 0);
+	const residual = days.reduce((sum, day) => sum + (day.usage - predict(day)) ** 2, 0);
+
+	return {
+		base_load: round(base_load),
+		per_hdd: round(per_hdd, 4),
+		per_cdd: per_cdd === null ? null : round(per_cdd, 4),
+		r_squared: total > 0 ? round(1 - residual / total) : null,
+		days: days.length
+	};
+}
+
+// Join daily usage with temperatures, fit the baseline and summarise by month
+export function normalizeUsage(records: any[], serviceType: ServiceType, temperatures: DailyTemperature[], options: WeatherOptions): WeatherReport {
+	const temperature_by_date = new Map(temperatures.map(day => [day.date, day.mean]));
+	const field = serviceType === 'GAS' ? 'usage_ccf' : 'usage_kwh';
+	const matched: WeatherDay[] = [];
+	let unmatched = 0;
+
+	for (const record of records) {
+		const date = toStorageDate(record.date);
+		const usage = record[field];
+		if (typeof usage !== 'number' || !Number.isFinite(usage)) {
+			continue;
+		}
+		const mean = temperature_by_date.get(date);
+		if (mean === undefined) {
+			unmatched += 1;
+			continue;
+		}
+		matched.push({ date, usage, mean_temp: round(mean, 1), ...degreeDays(mean, options.balance_point), expected_usage: null });
+	}
+	matched.sort((a, b) => a.date.localeCompare(b.date));
+
+	const regression = fitRegression(matched, serviceType);
+	const daily = matched
+		.filter(day => (!options.from || day.date >= options.from) && (!options.to || day.date <= options.to))
+		.map(day => ({
+			...day,
+			hdd: round(day.hdd, 1),
+			cdd: round(day.cdd, 1),
+			expected_usage: regression
+				? round(Math.max(0, regression.base_load + regression.per_hdd * day.hdd + (regression.per_cdd ?? 0) * day.cdd))
+				: null
+		}));
+
+	const months = new Map<string, WeatherDay[]>();
+	for (const day of daily) {
+		months.set(day.date.slice(0, 7), [...(months.get(day.date.slice(0, 7)) ?? []), day]);
+	}
+	const monthly = [...months.entries()].map(([month, days]): WeatherMonth => {
+		const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+		const usage = sum(days.map(day => day.usage));
+		const hdd = sum(days.map(day => day.hdd));
+		const cdd = sum(days.map(day => day.cdd));
+		const degree_days = serviceType === 'GAS' ? hdd : hdd + cdd;
+		const expected = regression ? sum(days.map(day => day.expected_usage ?? 0)) : null;
+		return {
+			month,
+			days: days.length,
+			usage: round(usage),
+			mean_temp: round(sum(days.map(day => day.mean_temp)) / days.length, 1),
+			hdd: round(hdd, 1),
+			cdd: round(cdd, 1),
+			usage_per_degree_day: degree_days > 0 ? round(usage / degree_days, 4) : null,
+			expected_usage: expected === null ? null : round(expected),
+			efficiency: expected ? round(usage / expected) : null
+		};
+	});
+
+	return {
+		service: serviceType,
+		unit: serviceType === 'GAS' ? 'CCF' : 'kWh',
+		balance_point: options.balance_point,
+		temperature_units: options.units,
+		matched_days: matched.length,
+		days_without_temperature: unmatched,
+		regression,
+		monthly,
+		daily
+	};
+}